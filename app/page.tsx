@@ -1,16 +1,26 @@
 "use client"
 
-import { useState, useEffect } from "react"
-import type { Globals, BookJob } from "@/lib/types"
-import { generatePlacedParts } from "@/lib/generator"
+import { useState, useEffect, useRef } from "react"
+import type {
+  Globals,
+  BookJob,
+  GenerationWarning,
+  OptimizeProgress,
+  PackingStrategy,
+  Remnant,
+  SheetSource,
+} from "@/lib/types"
+import { generateOptimizedParts, generatePlacedParts, groupBooksByCase } from "@/lib/generator"
 import { renderSheetsAsSvgs } from "@/lib/svg"
+import { saveRemnants } from "@/lib/packer"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { BookList } from "@/components/book-list"
 import { GlobalsForm } from "@/components/globals-form"
-import { Download, Package, RotateCcw, Loader2 } from "lucide-react"
+import { Download, Package, RotateCcw, Loader2, AlertTriangle, X, Archive } from "lucide-react"
 import saveAs from "file-saver"
 import { useToast } from "@/components/ui/use-toast"
 
@@ -18,17 +28,49 @@ import { useToast } from "@/components/ui/use-toast"
 const GLOBALS_STORAGE_KEY = "book-light-generator-globals"
 const BOOKS_STORAGE_KEY = "book-light-generator-books"
 
+const PACK_RULE_NAMES: Record<NonNullable<PackingStrategy["rule"]>, string> = {
+  bssf: "best short side fit",
+  blsf: "best long side fit",
+  baf: "best area fit",
+  bl: "bottom-left",
+  cp: "contact point",
+}
+
+const describeStrategy = ({ rule, sort, optimized }: PackingStrategy) =>
+  `${rule ? PACK_RULE_NAMES[rule] : "true-shape nesting"}, ${sort.replace("_", " ")} first${
+    optimized ? ", then optimized" : ""
+  }`
+
+const describeStockCost = (sheets: SheetSource[]) => {
+  const cost = sheets.reduce((sum, s) => sum + s.cost, 0)
+  return cost > 0 ? `, costing ${cost.toFixed(2)}` : ""
+}
+
 const defaultGlobals: Globals = {
   sheet_w: 19.5,
   sheet_h: 11.5,
+  stock: [],
+  stock_objective: "sheets",
+  remnants: [],
+  remnant_min: 3,
   margin: 0.25,
   part_gap: 0.08,
   allow_rotation: true,
+  nesting: "rect",
+  nest_cell: 0.05,
+  optimize_ms: 0,
+  optimize_seed: 1,
   kerf: 0.008,
   t: 0.118,
+  relief_style: "circle",
+  relief_size: 0.07,
 }
 
 const defaultBook: Omit<BookJob, "id" | "name"> = {
+  case_type: "tray",
+  open_end: "SPINE",
+  no_lid: false,
+  flush_top: false,
   H_ext: 10.0,
   W_ext: 9.0,
   D_ext: 1.5,
@@ -36,15 +78,44 @@ const defaultBook: Omit<BookJob, "id" | "name"> = {
   clear_depth: 0.06,
   h_visible: 0.3,
   raise_gap: 0.15,
+  clear_top: 0.125,
   tab_w_rule: 0.5,
   joint_clear: 0.004,
   symmetric_ends: true,
+  tab_overrides: {},
+  pads: [],
+  cutouts: [],
+  components: [],
+  dividers_cross: 0,
+  dividers_long: 0,
+  divider_halving: true,
+  led_channel: "none",
+  led_w: 0.315,
+  led_thick: 0.079,
+  diffuser_band: false,
+  dot_pattern: false,
+  dot_pitch: 0.1,
+  dot_min: 0.01,
+  dot_max: 0.05,
+  dot_falloff: 1.5,
+  dot_border: 0.15,
+  lid_style: "hinged",
+  slide_clear: 0.01,
+  slide_depth: 0.06,
+  lip_clear: 0.01,
   hinge_edge: "FORE",
+  hinge_style: "tape",
   tape_reserved_strip: 0.35,
   tape_guide: true,
+  knuckle_count: 5,
+  pin_diam: 0.0625,
+  pin_clear: 0.008,
   mag_count: 2,
   mag_diam: 0.157,
   mag_thick: 0.079,
+  mag_mount: "through",
+  mag_lid: false,
+  mag_layout: { kind: "corners" },
   mag_clear: 0.008,
   mag_edge_offset: 0.5,
 }
@@ -55,7 +126,7 @@ export default function BookLightGeneratorPage() {
     if (typeof window === "undefined") return defaultGlobals
     try {
       const saved = localStorage.getItem(GLOBALS_STORAGE_KEY)
-      return saved ? JSON.parse(saved) : defaultGlobals
+      return saved ? { ...defaultGlobals, ...JSON.parse(saved) } : defaultGlobals
     } catch (error) {
       console.error("Failed to load globals from localStorage", error)
       return defaultGlobals
@@ -66,7 +137,8 @@ export default function BookLightGeneratorPage() {
     if (typeof window === "undefined") return []
     try {
       const saved = localStorage.getItem(BOOKS_STORAGE_KEY)
-      return saved ? JSON.parse(saved) : []
+      // Books saved by older versions lack newer fields, so fill them in from the defaults.
+      return saved ? (JSON.parse(saved) as BookJob[]).map((book) => ({ ...defaultBook, ...book })) : []
     } catch (error) {
       console.error("Failed to load books from localStorage", error)
       return []
@@ -74,7 +146,20 @@ export default function BookLightGeneratorPage() {
   })
 
   const [generatedSvgs, setGeneratedSvgs] = useState<string[]>([])
+  const [warnings, setWarnings] = useState<GenerationWarning[]>([])
+  const [strategy, setStrategy] = useState<PackingStrategy>()
+  const [sheets, setSheets] = useState<SheetSource[]>([])
+  const [remnants, setRemnants] = useState<Remnant[]>([])
+  // The books and globals whose layout last had its remnants saved; saving again before either changes would
+  // record the same cut twice.
+  const [savedInputs, setSavedInputs] = useState<{ books: BookJob[]; globals: Globals }>()
+  const remnantsSaved = savedInputs?.books === books && savedInputs.globals === globals
+  // The books and globals the optimizer last ran on; its layout stays on show until either changes.
+  const [optimizedInputs, setOptimizedInputs] = useState<{ books: BookJob[]; globals: Globals }>()
+  const optimized = optimizedInputs?.books === books && optimizedInputs.globals === globals
   const [isGenerating, setIsGenerating] = useState(false)
+  const [optimizeProgress, setOptimizeProgress] = useState<OptimizeProgress>()
+  const optimizeAbort = useRef<AbortController | undefined>(undefined)
   const [hasInitialized, setHasInitialized] = useState(false)
   const { toast } = useToast()
 
@@ -99,19 +184,30 @@ export default function BookLightGeneratorPage() {
     if (!hasInitialized || books.length === 0) {
       if (hasInitialized && books.length === 0) {
         setGeneratedSvgs([]) // Clear SVGs when no books
+        setWarnings([])
       }
       return
     }
+    // The layout on show is the one whose remnants were just saved. Re-packing it onto those remnants would
+    // leave a preview that no longer matches what was cut.
+    if (remnantsSaved) return
+    // Nor should the greedy layout replace an optimized one made from the same inputs.
+    if (optimized) return
 
     const generateLayout = async () => {
       setIsGenerating(true)
       try {
-        const placedParts = generatePlacedParts(books, globals)
-        const svgs = renderSheetsAsSvgs(placedParts, globals)
+        const { placedParts, warnings, strategy, sheets, remnants } = generatePlacedParts(books, globals)
+        const svgs = renderSheetsAsSvgs(placedParts, globals, sheets)
         setGeneratedSvgs(svgs)
+        setWarnings(warnings)
+        setStrategy(strategy)
+        setSheets(sheets)
+        setRemnants(remnants)
       } catch (error) {
         console.error("Auto-generation failed:", error)
         setGeneratedSvgs([])
+        setWarnings([])
         // Only show error toast for significant errors, not for expected issues like parts not fitting
         if (error instanceof Error && !error.message.includes("cannot be placed")) {
           toast({
@@ -128,7 +224,7 @@ export default function BookLightGeneratorPage() {
     // Small delay to avoid excessive re-generation during rapid input changes
     const timeoutId = setTimeout(generateLayout, 300)
     return () => clearTimeout(timeoutId)
-  }, [globals, books, hasInitialized, toast])
+  }, [globals, books, hasInitialized, remnantsSaved, optimized, toast])
 
   // Effect to mark initialization as complete and trigger initial generation
   useEffect(() => {
@@ -153,9 +249,11 @@ export default function BookLightGeneratorPage() {
   }
 
   /**
-   * Manual generation trigger (now mainly for user feedback/forcing regeneration)
+   * Manual generation trigger. With an optimizer budget set, this also runs the layout optimizer, which can take
+   * a while and can be cancelled (keeping the best layout found so far). An optimized layout is kept until the books
+   * or settings change, when auto-generation replaces it with the greedy one.
    */
-  const handleGenerate = () => {
+  const handleGenerate = async () => {
     if (books.length === 0) {
       toast({
         title: "No Books Added",
@@ -166,13 +264,30 @@ export default function BookLightGeneratorPage() {
     }
 
     setIsGenerating(true)
+    const abort = new AbortController()
+    optimizeAbort.current = abort
     try {
-      const placedParts = generatePlacedParts(books, globals)
-      const svgs = renderSheetsAsSvgs(placedParts, globals)
+      const { placedParts, warnings, strategy, sheets, remnants } =
+        globals.optimize_ms > 0
+          ? await generateOptimizedParts(books, globals, {
+              timeBudgetMs: globals.optimize_ms,
+              seed: globals.optimize_seed,
+              onProgress: setOptimizeProgress,
+              signal: abort.signal,
+            })
+          : generatePlacedParts(books, globals)
+      const svgs = renderSheetsAsSvgs(placedParts, globals, sheets)
       setGeneratedSvgs(svgs)
+      setWarnings(warnings)
+      setStrategy(strategy)
+      setSheets(sheets)
+      setRemnants(remnants)
+      setOptimizedInputs(globals.optimize_ms > 0 ? { books, globals } : undefined)
       toast({
         title: "Layout Generated",
-        description: `Successfully packed ${placedParts.length} parts onto ${svgs.length} sheet(s).`,
+        description:
+          `Successfully packed ${placedParts.length} parts onto ${svgs.length} sheet(s).` +
+          (warnings.length > 0 ? ` ${warnings.length} warning(s) — see the preview.` : ""),
       })
     } catch (error) {
       console.error("Generation failed:", error)
@@ -183,9 +298,30 @@ export default function BookLightGeneratorPage() {
       })
     } finally {
       setIsGenerating(false)
+      setOptimizeProgress(undefined)
+      optimizeAbort.current = undefined
     }
   }
 
+  /**
+   * Records that the current layout has been cut: remnants it used leave the library, and its own remnants join it.
+   * The layout stays on show rather than being re-packed onto the remnants just saved, and saving stays off until the
+   * books or settings change.
+   */
+  const handleSaveRemnants = () => {
+    if (generatedSvgs.length === 0 || remnantsSaved) return
+    const usedIds = new Set(sheets.map((s) => s.stockId))
+    const used = globals.remnants.filter((r) => usedIds.has(r.id)).length
+    const saved = { ...globals, remnants: saveRemnants(globals.remnants, { sheets, remnants }) }
+    setGlobals(saved)
+    setSavedInputs({ books, globals: saved })
+    toast({
+      title: "Remnants Saved",
+      description:
+        `Added ${remnants.length} remnant(s) to the library.` + (used > 0 ? ` Used up ${used} remnant(s).` : ""),
+    })
+  }
+
   /**
    * Downloads all generated SVG sheets as individual files.
    */
@@ -198,26 +334,30 @@ export default function BookLightGeneratorPage() {
   }
 
   /**
-   * Generates and downloads SVGs on a per-book basis.
-   * Each book is processed as a separate job.
+   * Generates and downloads SVGs on a per-case basis.
+   * Each case is processed as a separate job: a book on its own, or all the books that share a case. The cases
+   * draw on one shared stock inventory and remnant library, so together they never ask for more than exists.
    */
   const handleDownloadPerBook = () => {
     if (books.length === 0) return
 
-    books.forEach((book) => {
+    let usedSheets: SheetSource[] = []
+    groupBooksByCase(books).forEach((caseBooks) => {
+      const name = caseBooks.map((book) => book.name).join(" + ")
       try {
-        const placedParts = generatePlacedParts([book], globals)
-        const svgs = renderSheetsAsSvgs(placedParts, globals, `book_${book.name}`)
+        const { placedParts, sheets } = generatePlacedParts(caseBooks, globals, usedSheets)
+        usedSheets = [...usedSheets, ...sheets]
+        const svgs = renderSheetsAsSvgs(placedParts, globals, sheets, `book_${name}`)
 
         svgs.forEach((svgString, i) => {
           const blob = new Blob([svgString], { type: "image/svg+xml;charset=utf-8" })
-          const fileName = svgs.length > 1 ? `book_${book.name}_sheet_${i + 1}.svg` : `book_${book.name}.svg`
+          const fileName = svgs.length > 1 ? `book_${name}_sheet_${i + 1}.svg` : `book_${name}.svg`
           saveAs(blob, fileName)
         })
       } catch (error) {
-        console.error(`Failed to generate SVG for ${book.name}:`, error)
+        console.error(`Failed to generate SVG for ${name}:`, error)
         toast({
-          title: `Failed for ${book.name}`,
+          title: `Failed for ${name}`,
           description: error instanceof Error ? error.message : "An unknown error occurred.",
           variant: "destructive",
         })
@@ -234,6 +374,7 @@ export default function BookLightGeneratorPage() {
     setGlobals(defaultGlobals)
     setBooks([])
     setGeneratedSvgs([]) // Also clear the preview
+    setWarnings([])
     toast({
       title: "Settings Cleared",
       description: "All settings and books have been reset to their defaults.",
@@ -256,8 +397,40 @@ export default function BookLightGeneratorPage() {
                 ) : (
                   <Package className="mr-2 h-4 w-4" />
                 )}
-                {isGenerating ? "Generating..." : "Pack Sheets"}
+                {isGenerating
+                  ? optimizeProgress
+                    ? `Optimizing... ${Math.min(100, Math.round((100 * optimizeProgress.elapsedMs) / optimizeProgress.budgetMs))}%`
+                    : "Generating..."
+                  : "Pack Sheets"}
               </Button>
+              {optimizeProgress && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button onClick={() => optimizeAbort.current?.abort()} variant="outline" size="icon">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    Stop optimizing ({optimizeProgress.sheets} sheet(s),{" "}
+                    {(100 * optimizeProgress.utilization).toFixed(1)}% used so far)
+                  </TooltipContent>
+                </Tooltip>
+              )}
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    onClick={handleSaveRemnants}
+                    variant="outline"
+                    size="icon"
+                    disabled={generatedSvgs.length === 0 || remnantsSaved}
+                  >
+                    <Archive className="h-4 w-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  {remnantsSaved ? "Remnants Already Saved for This Layout" : "Save Remnants After Cutting"}
+                </TooltipContent>
+              </Tooltip>
               <Tooltip>
                 <TooltipTrigger asChild>
                   <Button
@@ -277,7 +450,7 @@ export default function BookLightGeneratorPage() {
                     <Download className="h-4 w-4" />
                   </Button>
                 </TooltipTrigger>
-                <TooltipContent>Download Per-Book SVGs</TooltipContent>
+                <TooltipContent>Download Per-Book SVGs (One Per Case)</TooltipContent>
               </Tooltip>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -313,24 +486,58 @@ export default function BookLightGeneratorPage() {
                   {isGenerating
                     ? "Generating layout..."
                     : generatedSvgs.length > 0
-                      ? `Generated ${generatedSvgs.length} sheet(s). Updates automatically as you change settings.`
+                      ? `Generated ${generatedSvgs.length} sheet(s)${
+                          strategy ? ` (${describeStrategy(strategy)})` : ""
+                        }${describeStockCost(sheets)}${
+                          remnants.length > 0 ? `, leaving ${remnants.length} remnant(s) (outlined)` : ""
+                        }. Updates automatically as you change settings.`
                       : books.length === 0
                         ? "Add a book to see the generated layout."
                         : "Layout will appear here automatically."}
                 </CardDescription>
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-4">
+                {warnings.length > 0 && (
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertTitle>Generated with adjustments</AlertTitle>
+                    <AlertDescription>
+                      <ul className="list-disc pl-4 text-sm">
+                        {warnings.map((w, i) => (
+                          <li key={i}>
+                            {w.bookName}
+                            {w.partType ? ` ${w.partType}` : ""}: {w.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
                 <ScrollArea className="w-full whitespace-nowrap rounded-md border">
                   <div className="flex space-x-4 p-4 bg-gray-100">
                     {generatedSvgs.length > 0 ? (
                       generatedSvgs.map((svg, index) => (
                         <div key={index} className="flex-shrink-0">
-                          <h3 className="text-sm font-semibold mb-2">Sheet {index + 1}</h3>
+                          <h3 className="text-sm font-semibold mb-2">
+                            Sheet {index + 1}
+                            {sheets[index] && ` — ${sheets[index].name} (${sheets[index].w}" x ${sheets[index].h}")`}
+                          </h3>
                           <div
-                            className="bg-white shadow-md"
-                            dangerouslySetInnerHTML={{ __html: svg }}
-                            style={{ width: `${globals.sheet_w}in`, height: `${globals.sheet_h}in`, maxWidth: "80vw" }}
-                          />
+                            className="relative bg-white shadow-md"
+                            style={{
+                              width: `${sheets[index]?.w ?? globals.sheet_w}in`,
+                              height: `${sheets[index]?.h ?? globals.sheet_h}in`,
+                              maxWidth: "80vw",
+                            }}
+                          >
+                            <div dangerouslySetInnerHTML={{ __html: svg }} />
+                            {sheets[index] && (
+                              <RemnantOverlay
+                                sheet={sheets[index]}
+                                remnants={remnants.filter((r) => r.sheetIndex === index)}
+                              />
+                            )}
+                          </div>
                         </div>
                       ))
                     ) : (
@@ -358,3 +565,45 @@ export default function BookLightGeneratorPage() {
     </TooltipProvider>
   )
 }
+
+/**
+ * Outlines a sheet's remnants over its preview. It is drawn at the sheet's own size, like the sheet SVG beneath
+ * it, and kept out of the SVG itself so the remnants never reach the cutter.
+ */
+function RemnantOverlay({ sheet, remnants }: { sheet: SheetSource; remnants: Remnant[] }) {
+  if (remnants.length === 0) return null
+  return (
+    <svg
+      className="absolute left-0 top-0 pointer-events-none"
+      width={`${sheet.w}in`}
+      height={`${sheet.h}in`}
+      viewBox={`0 0 ${sheet.w} ${sheet.h}`}
+    >
+      {remnants.map((r, i) => (
+        <g key={i}>
+          <rect
+            x={r.x}
+            y={r.y}
+            width={r.w}
+            height={r.h}
+            fill="#0080FF"
+            fillOpacity={0.08}
+            stroke="#0080FF"
+            strokeWidth={0.02}
+            strokeDasharray="0.1 0.06"
+          />
+          <text
+            x={r.x + r.w / 2}
+            y={r.y + r.h / 2}
+            fontSize={Math.min(0.3, r.h / 4)}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            fill="#0060C0"
+          >
+            {`${r.w.toFixed(2)}" x ${r.h.toFixed(2)}"`}
+          </text>
+        </g>
+      ))}
+    </svg>
+  )
+}
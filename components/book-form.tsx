@@ -1,10 +1,51 @@
 "use client"
 
-import type { BookJob } from "@/lib/types"
+import { useState } from "react"
+import type {
+  BookJob,
+  ComponentKind,
+  ComponentPlacement,
+  Cutout,
+  CutoutShape,
+  EdgePair,
+  MagnetLayout,
+  PadZone,
+  PanelSide,
+  PartType,
+  Point,
+  TabOverride,
+} from "@/lib/types"
+import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
 import { Switch } from "@/components/ui/switch"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plus, Trash2 } from "lucide-react"
+
+const formatPoints = (points: Point[]) => points.map((p) => `${p.x}, ${p.y}`).join("\n")
+
+// Accepts one "x, y" pair per line; lines that don't parse (e.g. while still being typed) are skipped.
+const parsePoints = (text: string): Point[] =>
+  text
+    .split("\n")
+    .map((line) =>
+      line
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .map(Number),
+    )
+    .filter((nums) => nums.length === 2 && nums.every((n) => !isNaN(n)))
+    .map(([x, y]) => ({ x, y }))
+
+const defaultLayouts: { [K in MagnetLayout["kind"]]: Extract<MagnetLayout, { kind: K }> } = {
+  corners: { kind: "corners" },
+  edge: { kind: "edge", side: "top", count: 3 },
+  centered_pair: { kind: "centered_pair", axis: "x", spacing: 2 },
+  custom: { kind: "custom", points: [] },
+}
+
+const panelParts: PartType[] = ["BASE", "LID", "FRONT", "BACK", "LEFT", "RIGHT"]
 
 interface BookFormProps {
   book: BookJob
@@ -12,6 +53,9 @@ interface BookFormProps {
 }
 
 export function BookForm({ book, onUpdate }: BookFormProps) {
+  const layout: MagnetLayout = book.mag_layout ?? defaultLayouts.corners
+  const [customText, setCustomText] = useState(() => (layout.kind === "custom" ? formatPoints(layout.points) : ""))
+
   const handleChange = (field: keyof BookJob, value: string | number | boolean) => {
     if (typeof value === "string" && typeof book[field] === "number") {
       const num = Number.parseFloat(value)
@@ -27,12 +71,106 @@ export function BookForm({ book, onUpdate }: BookFormProps) {
     }
   }
 
+  // An empty field clears that part of the override, falling back to the automatic layout.
+  const handleTabOverride = (pair: EdgePair, field: keyof TabOverride, value: string) => {
+    const num = Number.parseFloat(value)
+    const current = book.tab_overrides ?? {}
+    const next: TabOverride = { ...current[pair], [field]: isNaN(num) || num <= 0 ? undefined : num }
+    onUpdate({ ...book, tab_overrides: { ...current, [pair]: next } })
+  }
+
+  const pads = book.pads ?? []
+  const handlePadChange = (index: number, patch: Partial<PadZone>) => {
+    onUpdate({ ...book, pads: pads.map((pad, i) => (i === index ? { ...pad, ...patch } : pad)) })
+  }
+  const handlePadNumber = (index: number, field: "start" | "length", value: string) => {
+    const num = Number.parseFloat(value)
+    handlePadChange(index, { [field]: isNaN(num) ? 0 : num })
+  }
+
+  const cutouts = book.cutouts ?? []
+  const handleCutoutChange = (index: number, patch: Partial<Cutout>) => {
+    onUpdate({ ...book, cutouts: cutouts.map((c, i) => (i === index ? { ...c, ...patch } : c)) })
+  }
+  const handleCutoutNumber = (index: number, field: "x" | "y" | "w" | "h" | "r", value: string) => {
+    const num = Number.parseFloat(value)
+    handleCutoutChange(index, { [field]: isNaN(num) ? 0 : num })
+  }
+
+  const components = book.components ?? []
+  const handleComponentChange = (index: number, patch: Partial<ComponentPlacement>) => {
+    onUpdate({ ...book, components: components.map((c, i) => (i === index ? { ...c, ...patch } : c)) })
+  }
+
+  const handleLayoutChange = (newLayout: MagnetLayout) => {
+    if (newLayout.kind === "custom" && layout.kind !== "custom") setCustomText(formatPoints(newLayout.points))
+    onUpdate({ ...book, mag_layout: newLayout })
+  }
+
   return (
     <div className="space-y-4 p-1 pr-12">
       <div className="space-y-2">
         <Label htmlFor={`name-${book.id}`}>Job Name</Label>
         <Input id={`name-${book.id}`} value={book.name} onChange={(e) => handleChange("name", e.target.value)} />
       </div>
+      <div className="space-y-2">
+        <Label htmlFor={`group_id-${book.id}`}>Shared Case Group</Label>
+        <Input
+          id={`group_id-${book.id}`}
+          placeholder="Books with the same group share one case"
+          value={book.group_id ?? ""}
+          onChange={(e) => handleChange("group_id", e.target.value)}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor={`case_type-${book.id}`}>Case Type</Label>
+          <Select value={book.case_type ?? "tray"} onValueChange={(v) => handleChange("case_type", v)}>
+            <SelectTrigger id={`case_type-${book.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="tray">Glow Tray</SelectItem>
+              <SelectItem value="enclosure">Full Enclosure</SelectItem>
+              <SelectItem value="slipcover">Slip-Cover</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {book.case_type === "slipcover" && (
+          <div className="space-y-2">
+            <Label htmlFor={`open_end-${book.id}`}>Open End</Label>
+            <Select value={book.open_end ?? "SPINE"} onValueChange={(v) => handleChange("open_end", v)}>
+              <SelectTrigger id={`open_end-${book.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="HEAD">Head</SelectItem>
+                <SelectItem value="TAIL">Tail</SelectItem>
+                <SelectItem value="FORE">Fore-edge</SelectItem>
+                <SelectItem value="SPINE">Spine</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="flex items-center space-x-2 col-span-2">
+          <Switch
+            id={`no_lid-${book.id}`}
+            checked={book.no_lid ?? false}
+            onCheckedChange={(c) => handleChange("no_lid", c)}
+          />
+          <Label htmlFor={`no_lid-${book.id}`}>Open Top (No Lid)</Label>
+        </div>
+        {book.no_lid && (
+          <div className="flex items-center space-x-2 col-span-2">
+            <Switch
+              id={`flush_top-${book.id}`}
+              checked={book.flush_top ?? false}
+              onCheckedChange={(c) => handleChange("flush_top", c)}
+            />
+            <Label htmlFor={`flush_top-${book.id}`}>Flush Top Edges</Label>
+          </div>
+        )}
+      </div>
       <h4 className="font-semibold text-sm pt-2">External Dimensions</h4>
       <div className="grid grid-cols-3 gap-2">
         <div className="space-y-2">
@@ -101,6 +239,17 @@ export function BookForm({ book, onUpdate }: BookFormProps) {
             onChange={(e) => handleChange("raise_gap", e.target.value)}
           />
         </div>
+        {(book.case_type ?? "tray") !== "tray" && (
+          <div className="space-y-2">
+            <Label htmlFor={`clear_top-${book.id}`}>Top Clear.</Label>
+            <Input
+              id={`clear_top-${book.id}`}
+              type="number"
+              value={book.clear_top}
+              onChange={(e) => handleChange("clear_top", e.target.value)}
+            />
+          </div>
+        )}
       </div>
       <h4 className="font-semibold text-sm pt-2">Joints & Hinge</h4>
       <div className="grid grid-cols-2 gap-2">
@@ -131,6 +280,116 @@ export function BookForm({ book, onUpdate }: BookFormProps) {
             onChange={(e) => handleChange("tape_reserved_strip", e.target.value)}
           />
         </div>
+        <div className="space-y-2">
+          <Label htmlFor={`lid_style-${book.id}`}>Lid Style</Label>
+          <Select value={book.lid_style ?? "hinged"} onValueChange={(v) => handleChange("lid_style", v)}>
+            <SelectTrigger id={`lid_style-${book.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hinged">Hinged</SelectItem>
+              <SelectItem value="sliding">Sliding</SelectItem>
+              <SelectItem value="inset">Inset</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {book.lid_style === "sliding" && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor={`slide_clear-${book.id}`}>Slide Clear.</Label>
+              <Input
+                id={`slide_clear-${book.id}`}
+                type="number"
+                value={book.slide_clear}
+                onChange={(e) => handleChange("slide_clear", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`slide_depth-${book.id}`}>Groove Depth</Label>
+              <Input
+                id={`slide_depth-${book.id}`}
+                type="number"
+                value={book.slide_depth}
+                onChange={(e) => handleChange("slide_depth", e.target.value)}
+              />
+            </div>
+          </>
+        )}
+        {book.lid_style === "inset" && (
+          <div className="space-y-2">
+            <Label htmlFor={`lip_clear-${book.id}`}>Lip Clear.</Label>
+            <Input
+              id={`lip_clear-${book.id}`}
+              type="number"
+              value={book.lip_clear}
+              onChange={(e) => handleChange("lip_clear", e.target.value)}
+            />
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor={`hinge_edge-${book.id}`}>Hinge Edge</Label>
+          <Select value={book.hinge_edge} onValueChange={(v) => handleChange("hinge_edge", v)}>
+            <SelectTrigger id={`hinge_edge-${book.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="HEAD">Head</SelectItem>
+              <SelectItem value="TAIL">Tail</SelectItem>
+              <SelectItem value="FORE">Fore</SelectItem>
+              <SelectItem value="SPINE">Spine</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`hinge_style-${book.id}`}>Hinge Style</Label>
+          <Select value={book.hinge_style ?? "tape"} onValueChange={(v) => handleChange("hinge_style", v)}>
+            <SelectTrigger id={`hinge_style-${book.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="tape">Tape</SelectItem>
+              <SelectItem value="living">Living Hinge</SelectItem>
+              <SelectItem value="knuckle">Knuckle Pin</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {book.hinge_style === "knuckle" && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor={`knuckle_count-${book.id}`}>Knuckle Barrels</Label>
+              <Input
+                id={`knuckle_count-${book.id}`}
+                type="number"
+                min={3}
+                step={2}
+                value={book.knuckle_count}
+                onChange={(e) => {
+                  // Barrels alternate wall, LID, wall, ..., so the count is odd, with at least one on the LID.
+                  const n = Number.parseInt(e.target.value, 10)
+                  onUpdate({ ...book, knuckle_count: isNaN(n) ? 3 : Math.max(3, n) | 1 })
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`pin_diam-${book.id}`}>Pin Diameter</Label>
+              <Input
+                id={`pin_diam-${book.id}`}
+                type="number"
+                value={book.pin_diam}
+                onChange={(e) => handleChange("pin_diam", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`pin_clear-${book.id}`}>Pin Clearance</Label>
+              <Input
+                id={`pin_clear-${book.id}`}
+                type="number"
+                value={book.pin_clear}
+                onChange={(e) => handleChange("pin_clear", e.target.value)}
+              />
+            </div>
+          </>
+        )}
         <div className="flex items-center space-x-2 pt-6">
           <Switch
             id={`symmetric_ends-${book.id}`}
@@ -140,9 +399,498 @@ export function BookForm({ book, onUpdate }: BookFormProps) {
           <Label htmlFor={`symmetric_ends-${book.id}`}>Symmetric Ends</Label>
         </div>
       </div>
-      <h4 className="font-semibold text-sm pt-2">Magnets (Base Only)</h4>
+      <h4 className="font-semibold text-sm pt-2">Finger Overrides</h4>
+      <div className="grid grid-cols-3 gap-2 items-end">
+        <span />
+        <Label className="text-xs text-gray-500">Count</Label>
+        <Label className="text-xs text-gray-500">Tab Width</Label>
+        {(
+          [
+            ["width", "Width Edges"],
+            ["depth", "Depth Edges"],
+            ["height", "Height Edges"],
+          ] as [EdgePair, string][]
+        ).map(([pair, label]) => (
+          <div key={pair} className="contents">
+            <Label htmlFor={`tab_count_${pair}-${book.id}`} className="self-center">
+              {label}
+            </Label>
+            <Input
+              id={`tab_count_${pair}-${book.id}`}
+              type="number"
+              placeholder="Auto"
+              value={book.tab_overrides?.[pair]?.count ?? ""}
+              onChange={(e) => handleTabOverride(pair, "count", e.target.value)}
+            />
+            <Input
+              id={`tab_w_${pair}-${book.id}`}
+              type="number"
+              placeholder="Auto"
+              value={book.tab_overrides?.[pair]?.tab_w ?? ""}
+              onChange={(e) => handleTabOverride(pair, "tab_w", e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between pt-2">
+        <h4 className="font-semibold text-sm">Flat Edge Spans</h4>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onUpdate({ ...book, pads: [...pads, { part: "BACK", side: "top", start: 0, length: 1 }] })}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Span
+        </Button>
+      </div>
+      {pads.length > 0 && (
+        <p className="text-xs text-gray-500">
+          No fingers are cut along these spans, on the chosen edge or the edge it mates with. Start is measured from the
+          left (or top) end of the panel&apos;s interior, walls seen from outside.
+        </p>
+      )}
+      {pads.map((pad, i) => (
+        <div key={i} className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 items-end">
+          <div className="space-y-2">
+            <Label htmlFor={`pad_part_${i}-${book.id}`}>Part</Label>
+            <Select value={pad.part} onValueChange={(v) => handlePadChange(i, { part: v as PartType })}>
+              <SelectTrigger id={`pad_part_${i}-${book.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {panelParts.map((part) => (
+                  <SelectItem key={part} value={part}>
+                    {part}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`pad_side_${i}-${book.id}`}>Edge</Label>
+            <Select value={pad.side} onValueChange={(v) => handlePadChange(i, { side: v as PanelSide })}>
+              <SelectTrigger id={`pad_side_${i}-${book.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="top">Top</SelectItem>
+                <SelectItem value="right">Right</SelectItem>
+                <SelectItem value="bottom">Bottom</SelectItem>
+                <SelectItem value="left">Left</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`pad_start_${i}-${book.id}`}>Start</Label>
+            <Input
+              id={`pad_start_${i}-${book.id}`}
+              type="number"
+              value={pad.start}
+              onChange={(e) => handlePadNumber(i, "start", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`pad_length_${i}-${book.id}`}>Length</Label>
+            <Input
+              id={`pad_length_${i}-${book.id}`}
+              type="number"
+              value={pad.length}
+              onChange={(e) => handlePadNumber(i, "length", e.target.value)}
+            />
+          </div>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => onUpdate({ ...book, pads: pads.filter((_, j) => j !== i) })}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between pt-2">
+        <h4 className="font-semibold text-sm">Cutouts</h4>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() =>
+            onUpdate({
+              ...book,
+              cutouts: [...cutouts, { part: "BACK", shape: "slot", x: 1, y: 0.25, w: 0.4, h: 0.15 }],
+            })
+          }
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Cutout
+        </Button>
+      </div>
+      {cutouts.length > 0 && (
+        <p className="text-xs text-gray-500">
+          X and Y locate the cutout&apos;s center from the top-left corner of the panel&apos;s interior. Circles use
+          Width as their diameter.
+        </p>
+      )}
+      {cutouts.map((c, i) => (
+        <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end border-b pb-2">
+          <div className="space-y-2">
+            <Label htmlFor={`cutout_part_${i}-${book.id}`}>Part</Label>
+            <Select value={c.part} onValueChange={(v) => handleCutoutChange(i, { part: v as PartType })}>
+              <SelectTrigger id={`cutout_part_${i}-${book.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {panelParts.map((part) => (
+                  <SelectItem key={part} value={part}>
+                    {part}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`cutout_shape_${i}-${book.id}`}>Shape</Label>
+            <Select value={c.shape} onValueChange={(v) => handleCutoutChange(i, { shape: v as CutoutShape })}>
+              <SelectTrigger id={`cutout_shape_${i}-${book.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="circle">Circle</SelectItem>
+                <SelectItem value="rect">Rectangle</SelectItem>
+                <SelectItem value="slot">Slot</SelectItem>
+                <SelectItem value="rounded_rect">Rounded Rectangle</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => onUpdate({ ...book, cutouts: cutouts.filter((_, j) => j !== i) })}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <div className="col-span-3 grid grid-cols-5 gap-2">
+            {(
+              [
+                ["x", "X"],
+                ["y", "Y"],
+                ["w", "Width"],
+                ["h", "Height"],
+                ["r", "Radius"],
+              ] as ["x" | "y" | "w" | "h" | "r", string][]
+            )
+              .filter(
+                ([field]) => (field !== "h" || c.shape !== "circle") && (field !== "r" || c.shape === "rounded_rect"),
+              )
+              .map(([field, label]) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`cutout_${field}_${i}-${book.id}`}>{label}</Label>
+                  <Input
+                    id={`cutout_${field}_${i}-${book.id}`}
+                    type="number"
+                    value={c[field] ?? 0}
+                    onChange={(e) => handleCutoutNumber(i, field, e.target.value)}
+                  />
+                </div>
+              ))}
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center justify-between pt-2">
+        <h4 className="font-semibold text-sm">Components</h4>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onUpdate({ ...book, components: [...components, { kind: "usb_c", part: "BACK", offset: 1 }] })}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Component
+        </Button>
+      </div>
+      {components.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Offset is measured from the left end of the panel&apos;s interior, Elevation up from its bottom (leave empty
+          to center).
+        </p>
+      )}
+      {components.map((c, i) => (
+        <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end border-b pb-2">
+          <div className="space-y-2">
+            <Label htmlFor={`component_kind_${i}-${book.id}`}>Component</Label>
+            <Select value={c.kind} onValueChange={(v) => handleComponentChange(i, { kind: v as ComponentKind })}>
+              <SelectTrigger id={`component_kind_${i}-${book.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="usb_c">USB-C Receptacle</SelectItem>
+                <SelectItem value="micro_usb">Micro-USB</SelectItem>
+                <SelectItem value="barrel_jack">5.5mm Barrel Jack</SelectItem>
+                <SelectItem value="ss12_switch">SS12 Slide Switch</SelectItem>
+                <SelectItem value="aa2_holder">2xAA Holder Screws</SelectItem>
+                <SelectItem value="holder_18650">18650 Holder Screws</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`component_part_${i}-${book.id}`}>Part</Label>
+            <Select value={c.part} onValueChange={(v) => handleComponentChange(i, { part: v as PartType })}>
+              <SelectTrigger id={`component_part_${i}-${book.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {panelParts.map((part) => (
+                  <SelectItem key={part} value={part}>
+                    {part}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => onUpdate({ ...book, components: components.filter((_, j) => j !== i) })}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <div className="space-y-2">
+            <Label htmlFor={`component_offset_${i}-${book.id}`}>Offset</Label>
+            <Input
+              id={`component_offset_${i}-${book.id}`}
+              type="number"
+              value={c.offset}
+              onChange={(e) => {
+                const num = Number.parseFloat(e.target.value)
+                handleComponentChange(i, { offset: isNaN(num) ? 0 : num })
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`component_elevation_${i}-${book.id}`}>Elevation</Label>
+            <Input
+              id={`component_elevation_${i}-${book.id}`}
+              type="number"
+              placeholder="Centered"
+              value={c.elevation ?? ""}
+              onChange={(e) => {
+                const num = Number.parseFloat(e.target.value)
+                handleComponentChange(i, { elevation: isNaN(num) ? undefined : num })
+              }}
+            />
+          </div>
+          <div className="flex items-center space-x-2 pb-2">
+            <Switch
+              id={`component_rotated_${i}-${book.id}`}
+              checked={!!c.rotated}
+              onCheckedChange={(checked) => handleComponentChange(i, { rotated: checked })}
+            />
+            <Label htmlFor={`component_rotated_${i}-${book.id}`}>Rotate</Label>
+          </div>
+        </div>
+      ))}
+      <h4 className="font-semibold text-sm pt-2">Dividers</h4>
       <div className="grid grid-cols-2 gap-2">
         <div className="space-y-2">
+          <Label htmlFor={`dividers_cross-${book.id}`}>Cross (FRONT to BACK)</Label>
+          <Input
+            id={`dividers_cross-${book.id}`}
+            type="number"
+            min={0}
+            step={1}
+            value={book.dividers_cross ?? 0}
+            onChange={(e) => handleChange("dividers_cross", e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`dividers_long-${book.id}`}>Long (LEFT to RIGHT)</Label>
+          <Input
+            id={`dividers_long-${book.id}`}
+            type="number"
+            min={0}
+            step={1}
+            value={book.dividers_long ?? 0}
+            onChange={(e) => handleChange("dividers_long", e.target.value)}
+          />
+        </div>
+        <div className="flex items-center space-x-2 col-span-2">
+          <Switch
+            id={`divider_halving-${book.id}`}
+            checked={book.divider_halving ?? true}
+            onCheckedChange={(c) => handleChange("divider_halving", c)}
+          />
+          <Label htmlFor={`divider_halving-${book.id}`}>Halving Joints Where Dividers Cross</Label>
+        </div>
+      </div>
+      <h4 className="font-semibold text-sm pt-2">Lighting</h4>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2 col-span-2">
+          <Label htmlFor={`led_channel-${book.id}`}>LED Channel</Label>
+          <Select value={book.led_channel ?? "none"} onValueChange={(v) => handleChange("led_channel", v)}>
+            <SelectTrigger id={`led_channel-${book.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="wall_slots">Wall Windows</SelectItem>
+              <SelectItem value="base_groove">Base Groove</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {(book.led_channel ?? "none") !== "none" && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor={`led_w-${book.id}`}>Strip Width</Label>
+              <Input
+                id={`led_w-${book.id}`}
+                type="number"
+                value={book.led_w}
+                onChange={(e) => handleChange("led_w", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`led_thick-${book.id}`}>Strip Thickness</Label>
+              <Input
+                id={`led_thick-${book.id}`}
+                type="number"
+                value={book.led_thick}
+                onChange={(e) => handleChange("led_thick", e.target.value)}
+              />
+            </div>
+          </>
+        )}
+        <div className="flex items-center space-x-2 col-span-2">
+          <Switch
+            id={`diffuser_band-${book.id}`}
+            checked={book.diffuser_band ?? false}
+            onCheckedChange={(c) => handleChange("diffuser_band", c)}
+          />
+          <Label htmlFor={`diffuser_band-${book.id}`}>Engraved Diffuser Band</Label>
+        </div>
+        <div className="flex items-center space-x-2 col-span-2">
+          <Switch
+            id={`dot_pattern-${book.id}`}
+            checked={book.dot_pattern ?? false}
+            onCheckedChange={(c) => handleChange("dot_pattern", c)}
+          />
+          <Label htmlFor={`dot_pattern-${book.id}`}>Light-Extraction Dots on Lid</Label>
+        </div>
+        {book.dot_pattern &&
+          (
+            [
+              ["dot_pitch", "Dot Spacing"],
+              ["dot_border", "Dot-Free Border"],
+              ["dot_min", "Edge Dot Size"],
+              ["dot_max", "Center Dot Size"],
+              ["dot_falloff", "Falloff"],
+            ] as [keyof BookJob, string][]
+          ).map(([field, label]) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`${field}-${book.id}`}>{label}</Label>
+              <Input
+                id={`${field}-${book.id}`}
+                type="number"
+                value={book[field] as number}
+                onChange={(e) => handleChange(field, e.target.value)}
+              />
+            </div>
+          ))}
+      </div>
+      <h4 className="font-semibold text-sm pt-2">Magnets</h4>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2 col-span-2">
+          <Label htmlFor={`mag_layout-${book.id}`}>Layout</Label>
+          <Select
+            value={layout.kind}
+            onValueChange={(v) => handleLayoutChange(defaultLayouts[v as MagnetLayout["kind"]])}
+          >
+            <SelectTrigger id={`mag_layout-${book.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="corners">Corners</SelectItem>
+              <SelectItem value="edge">Along an Edge</SelectItem>
+              <SelectItem value="centered_pair">Centered Pair</SelectItem>
+              <SelectItem value="custom">Custom Positions</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {layout.kind === "edge" && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor={`mag_layout_side-${book.id}`}>Edge</Label>
+              <Select
+                value={layout.side}
+                onValueChange={(v) => handleLayoutChange({ ...layout, side: v as PanelSide })}
+              >
+                <SelectTrigger id={`mag_layout_side-${book.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="top">Top</SelectItem>
+                  <SelectItem value="right">Right</SelectItem>
+                  <SelectItem value="bottom">Bottom</SelectItem>
+                  <SelectItem value="left">Left</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`mag_layout_count-${book.id}`}>Magnets</Label>
+              <Input
+                id={`mag_layout_count-${book.id}`}
+                type="number"
+                value={layout.count}
+                onChange={(e) => {
+                  const n = Number.parseInt(e.target.value, 10)
+                  handleLayoutChange({ ...layout, count: isNaN(n) ? 0 : n })
+                }}
+              />
+            </div>
+          </>
+        )}
+        {layout.kind === "centered_pair" && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor={`mag_layout_axis-${book.id}`}>Axis</Label>
+              <Select
+                value={layout.axis}
+                onValueChange={(v) => handleLayoutChange({ ...layout, axis: v as "x" | "y" })}
+              >
+                <SelectTrigger id={`mag_layout_axis-${book.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="x">Across Width</SelectItem>
+                  <SelectItem value="y">Across Depth</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`mag_layout_spacing-${book.id}`}>Spacing</Label>
+              <Input
+                id={`mag_layout_spacing-${book.id}`}
+                type="number"
+                value={layout.spacing}
+                onChange={(e) => {
+                  const num = Number.parseFloat(e.target.value)
+                  handleLayoutChange({ ...layout, spacing: isNaN(num) ? 0 : num })
+                }}
+              />
+            </div>
+          </>
+        )}
+        {layout.kind === "custom" && (
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor={`mag_layout_points-${book.id}`}>Centers (x, y per line, from BASE top-left)</Label>
+            <Textarea
+              id={`mag_layout_points-${book.id}`}
+              rows={4}
+              value={customText}
+              onChange={(e) => {
+                setCustomText(e.target.value)
+                handleLayoutChange({ kind: "custom", points: parsePoints(e.target.value) })
+              }}
+            />
+          </div>
+        )}
+        <div className="space-y-2" hidden={layout.kind !== "corners"}>
           <Label htmlFor={`mag_count-${book.id}`}>Count</Label>
           <Select value={String(book.mag_count)} onValueChange={(v) => handleChange("mag_count", v)}>
             <SelectTrigger>
@@ -164,6 +912,27 @@ export function BookForm({ book, onUpdate }: BookFormProps) {
             onChange={(e) => handleChange("mag_diam", e.target.value)}
           />
         </div>
+        <div className="space-y-2">
+          <Label htmlFor={`mag_thick-${book.id}`}>Thickness</Label>
+          <Input
+            id={`mag_thick-${book.id}`}
+            type="number"
+            value={book.mag_thick}
+            onChange={(e) => handleChange("mag_thick", e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`mag_mount-${book.id}`}>Mount</Label>
+          <Select value={book.mag_mount ?? "through"} onValueChange={(v) => handleChange("mag_mount", v)}>
+            <SelectTrigger id={`mag_mount-${book.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="through">Through Hole</SelectItem>
+              <SelectItem value="pocket">Blind Pocket</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
         <div className="space-y-2">
           <Label htmlFor={`mag_clear-${book.id}`}>Clearance</Label>
           <Input
@@ -182,6 +951,14 @@ export function BookForm({ book, onUpdate }: BookFormProps) {
             onChange={(e) => handleChange("mag_edge_offset", e.target.value)}
           />
         </div>
+        <div className="flex items-center space-x-2 col-span-2">
+          <Switch
+            id={`mag_lid-${book.id}`}
+            checked={book.mag_lid ?? false}
+            onCheckedChange={(c) => handleChange("mag_lid", c)}
+          />
+          <Label htmlFor={`mag_lid-${book.id}`}>Matching Holes in Lid</Label>
+        </div>
       </div>
     </div>
   )
@@ -1,10 +1,13 @@
 "use client"
 
-import type { Globals } from "@/lib/types"
+import type { Globals, StockSheet } from "@/lib/types"
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
 import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Button } from "@/components/ui/button"
+import { Plus, Trash2 } from "lucide-react"
 
 interface GlobalsFormProps {
   globals: Globals
@@ -21,6 +24,18 @@ export function GlobalsForm({ globals, onUpdate }: GlobalsFormProps) {
     }
   }
 
+  const stock = globals.stock ?? []
+  const remnants = globals.remnants ?? []
+  const handleStockChange = (index: number, patch: Partial<StockSheet>) => {
+    onUpdate({ ...globals, stock: stock.map((s, i) => (i === index ? { ...s, ...patch } : s)) })
+  }
+  // Count and cost may be left blank: unlimited sheets, and free ones.
+  const handleStockNumber = (index: number, field: "w" | "h" | "count" | "cost", value: string) => {
+    const num = Number.parseFloat(value)
+    const optional = field === "count" || field === "cost"
+    handleStockChange(index, { [field]: isNaN(num) ? (optional ? undefined : 0) : num })
+  }
+
   return (
     <Card>
       <CardHeader>
@@ -46,6 +61,129 @@ export function GlobalsForm({ globals, onUpdate }: GlobalsFormProps) {
             onChange={(e) => handleChange("sheet_h", e.target.value)}
           />
         </div>
+        <div className="col-span-2 flex items-center justify-between">
+          <h4 className="font-semibold text-sm">Stock Inventory</h4>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              onUpdate({
+                ...globals,
+                stock: [
+                  ...stock,
+                  {
+                    id: `stock-${Date.now()}`,
+                    name: `Stock ${stock.length + 1}`,
+                    w: globals.sheet_w,
+                    h: globals.sheet_h,
+                  },
+                ],
+              })
+            }
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Stock
+          </Button>
+        </div>
+        <p className="col-span-2 text-xs text-gray-500">
+          {stock.length > 0
+            ? "Sheets are drawn from this stock instead of the sheet size above. Leave Count blank for as many as needed; ties go to the stock listed first."
+            : "Without any stock listed, every sheet uses the sheet size above."}
+        </p>
+        {stock.map((s, i) => (
+          <div key={s.id} className="col-span-2 grid grid-cols-[1fr_auto] gap-2 items-end border-b pb-2">
+            <div className="space-y-2">
+              <Label htmlFor={`stock_name_${s.id}`}>Name</Label>
+              <Input
+                id={`stock_name_${s.id}`}
+                value={s.name}
+                onChange={(e) => handleStockChange(i, { name: e.target.value })}
+              />
+            </div>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => onUpdate({ ...globals, stock: stock.filter((_, j) => j !== i) })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+            <div className="col-span-2 grid grid-cols-4 gap-2">
+              {(
+                [
+                  ["w", "Width"],
+                  ["h", "Height"],
+                  ["count", "Count"],
+                  ["cost", "Cost"],
+                ] as const
+              ).map(([field, label]) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`stock_${field}_${s.id}`}>{label}</Label>
+                  <Input
+                    id={`stock_${field}_${s.id}`}
+                    type="number"
+                    value={s[field] ?? ""}
+                    onChange={(e) => handleStockNumber(i, field, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+        {stock.length > 0 && (
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="stock_objective">Choose Stock To Use</Label>
+            <Select
+              value={globals.stock_objective ?? "sheets"}
+              onValueChange={(v) => handleChange("stock_objective", v)}
+            >
+              <SelectTrigger id="stock_objective">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sheets">Fewest Sheets</SelectItem>
+                <SelectItem value="cost">Lowest Cost</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="col-span-2 flex items-center justify-between">
+          <h4 className="font-semibold text-sm">Remnant Library</h4>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={remnants.length === 0}
+            onClick={() => onUpdate({ ...globals, remnants: [] })}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Clear
+          </Button>
+        </div>
+        <p className="col-span-2 text-xs text-gray-500">
+          {remnants.length > 0
+            ? "Saved remnants are used before any stock. Remove any you have used elsewhere or thrown away."
+            : "No remnants saved. After cutting a layout, save its remnants to use them in later layouts."}
+        </p>
+        {remnants.map((r, i) => (
+          <div key={r.id} className="col-span-2 flex items-center justify-between border-b pb-2 text-sm">
+            <span>{r.name}</span>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => onUpdate({ ...globals, remnants: remnants.filter((_, j) => j !== i) })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="space-y-2 col-span-2">
+          <Label htmlFor="remnant_min">Smallest Remnant To Keep (in)</Label>
+          <Input
+            id="remnant_min"
+            type="number"
+            value={globals.remnant_min ?? 3}
+            onChange={(e) => handleChange("remnant_min", e.target.value)}
+          />
+        </div>
         <div className="space-y-2">
           <Label htmlFor="margin">Margin (in)</Label>
           <Input
@@ -72,6 +210,78 @@ export function GlobalsForm({ globals, onUpdate }: GlobalsFormProps) {
           <Label htmlFor="t">Material Thickness (in)</Label>
           <Input id="t" type="number" value={globals.t} onChange={(e) => handleChange("t", e.target.value)} />
         </div>
+        <div className="space-y-2">
+          <Label htmlFor="relief_style">Corner Reliefs</Label>
+          <Select value={globals.relief_style ?? "circle"} onValueChange={(v) => handleChange("relief_style", v)}>
+            <SelectTrigger id="relief_style">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="circle">Circle</SelectItem>
+              <SelectItem value="dogbone">Dog-bone</SelectItem>
+              <SelectItem value="tbone">T-bone</SelectItem>
+              <SelectItem value="none">None</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="relief_size">
+            {globals.relief_style === "dogbone" || globals.relief_style === "tbone"
+              ? "Tool Diameter"
+              : "Relief Diameter"}{" "}
+            (in)
+          </Label>
+          <Input
+            id="relief_size"
+            type="number"
+            value={globals.relief_size}
+            disabled={globals.relief_style === "none"}
+            onChange={(e) => handleChange("relief_size", e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="nesting">Nesting</Label>
+          <Select value={globals.nesting ?? "rect"} onValueChange={(v) => handleChange("nesting", v)}>
+            <SelectTrigger id="nesting">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="rect">Bounding Boxes</SelectItem>
+              <SelectItem value="shape">True Shape</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="nest_cell">Nesting Resolution (in)</Label>
+          <Input
+            id="nest_cell"
+            type="number"
+            min={0.01}
+            step={0.01}
+            value={globals.nest_cell ?? 0.05}
+            disabled={globals.nesting !== "shape"}
+            onChange={(e) => handleChange("nest_cell", e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="optimize_ms">Optimizer Budget (ms)</Label>
+          <Input
+            id="optimize_ms"
+            type="number"
+            value={globals.optimize_ms ?? 0}
+            onChange={(e) => handleChange("optimize_ms", e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="optimize_seed">Optimizer Seed</Label>
+          <Input
+            id="optimize_seed"
+            type="number"
+            value={globals.optimize_seed ?? 1}
+            disabled={!globals.optimize_ms}
+            onChange={(e) => handleChange("optimize_seed", e.target.value)}
+          />
+        </div>
         <div className="flex items-center space-x-2 col-span-2">
           <Switch
             id="allow_rotation"
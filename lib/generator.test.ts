@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest"
+import { generatePlacedParts } from "./generator"
+import type { BookJob, Globals, PlacedPart, Point } from "./types"
+
+const globals: Globals = {
+  sheet_w: 19.5,
+  sheet_h: 11.5,
+  stock: [],
+  stock_objective: "sheets",
+  remnants: [],
+  remnant_min: 3,
+  margin: 0.25,
+  part_gap: 0.08,
+  allow_rotation: true,
+  nesting: "rect",
+  nest_cell: 0.05,
+  optimize_ms: 0,
+  optimize_seed: 1,
+  kerf: 0.008,
+  t: 0.118,
+  relief_style: "none",
+  relief_size: 0.07,
+}
+
+const book: BookJob = {
+  id: "b1",
+  name: "B1",
+  case_type: "tray",
+  open_end: "SPINE",
+  no_lid: false,
+  flush_top: false,
+  H_ext: 10.0,
+  W_ext: 9.0,
+  D_ext: 1.5,
+  clear_side: 0.06,
+  clear_depth: 0.06,
+  h_visible: 0.3,
+  raise_gap: 0.15,
+  clear_top: 0.125,
+  tab_w_rule: 0.5,
+  joint_clear: 0.004,
+  symmetric_ends: true,
+  tab_overrides: {},
+  pads: [],
+  cutouts: [],
+  components: [],
+  dividers_cross: 0,
+  dividers_long: 0,
+  divider_halving: true,
+  led_channel: "none",
+  led_w: 0.315,
+  led_thick: 0.079,
+  diffuser_band: false,
+  dot_pattern: false,
+  dot_pitch: 0.1,
+  dot_min: 0.01,
+  dot_max: 0.05,
+  dot_falloff: 1.5,
+  dot_border: 0.15,
+  lid_style: "hinged",
+  slide_clear: 0.01,
+  slide_depth: 0.06,
+  lip_clear: 0.01,
+  hinge_edge: "FORE",
+  hinge_style: "tape",
+  tape_reserved_strip: 0.35,
+  tape_guide: true,
+  knuckle_count: 5,
+  pin_diam: 0.0625,
+  pin_clear: 0.008,
+  mag_count: 2,
+  mag_diam: 0.157,
+  mag_thick: 0.079,
+  mag_mount: "through",
+  mag_lid: false,
+  mag_layout: { kind: "corners" },
+  mag_clear: 0.008,
+  mag_edge_offset: 0.5,
+}
+
+const outline = (part: PlacedPart): Point[] =>
+  part.outerCutD
+    .replace(/[MZ]/g, "")
+    .split("L")
+    .map((pair) => {
+      const [x, y] = pair.trim().split(/\s+/).map(Number)
+      return { x, y }
+    })
+
+/** Lengths of the outline's horizontal runs at height `y`, leaving out the runs that touch the outline's ends. */
+function runsAt(points: Point[], y: number): number[] {
+  const xs = points.map((p) => p.x)
+  const [minX, maxX] = [Math.min(...xs), Math.max(...xs)]
+  const runs: number[] = []
+  points.forEach((a, i) => {
+    const b = points[(i + 1) % points.length]
+    const inside = [a.x, b.x].every((x) => x > minX + 1e-3 && x < maxX - 1e-3)
+    if (inside && Math.abs(a.y - y) < 1e-3 && Math.abs(b.y - y) < 1e-3) runs.push(Math.abs(b.x - a.x))
+  })
+  return runs
+}
+
+/** The FRONT's male tabs and the BASE's slots along the joint between them, as drawn (before the kerf is cut). */
+function frontBaseJoint(g: Globals, job: BookJob) {
+  const { placedParts } = generatePlacedParts([job], g)
+  const front = outline(placedParts.find((p) => p.partType === "FRONT")!)
+  const base = outline(placedParts.find((p) => p.partType === "BASE")!)
+  // The FRONT's bottom edge carries its tabs; the BASE's slots sit one sheet in from its top edge.
+  const tabs = runsAt(front, Math.max(...front.map((p) => p.y)))
+  const slots = runsAt(base, Math.min(...base.map((p) => p.y)) + g.t)
+  return { tabs, slots }
+}
+
+describe("finger joints", () => {
+  it("leave twice the joint clearance of play once the kerf is cut", () => {
+    const { tabs, slots } = frontBaseJoint(globals, book)
+    expect(tabs.length).toBeGreaterThan(0)
+    expect(slots.length).toBeGreaterThan(0)
+    // The kerf removes half its width from each side: tabs come out narrower and slots wider than drawn.
+    const tab = tabs[0] - globals.kerf
+    const slot = slots[0] + globals.kerf
+    expect(slot - tab).toBeCloseTo(2 * book.joint_clear, 4)
+  })
+
+  it("cut tabs to their nominal width whatever the kerf", () => {
+    const wide = frontBaseJoint({ ...globals, kerf: 0.02 }, book)
+    const narrow = frontBaseJoint({ ...globals, kerf: 0.004 }, book)
+    expect(wide.tabs[0] - 0.02).toBeCloseTo(narrow.tabs[0] - 0.004, 4)
+  })
+})
+
+describe("knuckle hinges", () => {
+  it("are built from an odd number of barrels, each holding the pin", () => {
+    const { placedParts, warnings } = generatePlacedParts(
+      [{ ...book, hinge_style: "knuckle", knuckle_count: 4 }],
+      globals,
+    )
+    const barrels = placedParts.filter((p) => p.partType === "HINGE_BARREL")
+    expect(barrels).toHaveLength(5)
+    expect(warnings.map((w) => w.message)).toContain(
+      "Knuckle hinges need an odd count of at least 3; using 5 instead of 4.",
+    )
+    for (const barrel of barrels) {
+      expect(barrel.holes).toHaveLength(1)
+      expect(barrel.holes[0].r).toBeCloseTo((book.pin_diam + book.pin_clear + globals.kerf) / 2, 6)
+    }
+  })
+})
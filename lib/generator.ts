@@ -6,13 +6,38 @@
  * 1. `generatePlacedParts` is the entry point.
  * 2. It calls `mkParts` to create all the raw geometric `Part` objects for each book job.
  * 3. It then enters a loop:
- *    a. It calls `packer.pack` to attempt to place the remaining parts.
+ *    a. It calls `packer.packBest` to place the remaining parts with the best of several packing strategies.
  *    b. It calls `isPartInBounds` to rigorously verify that each placed part's true geometry fits on the sheet.
  *    c. Any parts that fail verification are collected and re-packed onto new sheets in the next loop iteration.
  * 4. This continues until all parts are validly placed.
  */
-import type { Globals, BookJob, Part, PlacedPart, Rect, EdgeParams, Point } from "./types"
-import { pack } from "./packer"
+import type {
+  Globals,
+  BookJob,
+  Part,
+  PlacedPart,
+  Rect,
+  EdgeParams,
+  Point,
+  EdgeName,
+  PanelSide,
+  PanelEdges,
+  PartType,
+  JointRole,
+  GenerationResult,
+  GenerationWarning,
+  EdgePair,
+  TabOverride,
+  PadZone,
+  Cutout,
+  ComponentKind,
+  ComponentPlacement,
+  PackingStrategy,
+  SheetSource,
+} from "./types"
+import { findRemnants, packBest, stockLeft } from "./packer"
+import { optimizeLayout, type OptimizeOptions } from "./optimizer"
+import { offsetPolygon } from "./geometry"
 
 // --- Main Orchestration ---
 
@@ -22,14 +47,15 @@ import { pack } from "./packer"
  * them against the sheet boundaries defined by the global margin.
  * This is the final source of truth for placement validity.
  * @param p - The `PlacedPart` to verify.
+ * @param sheet - The sheet the part is placed on.
  * @param g - The global settings.
  * @returns `true` if the part is entirely within bounds, `false` otherwise.
  */
-function isPartInBounds(p: PlacedPart, g: Globals): boolean {
+function isPartInBounds(p: PlacedPart, sheet: SheetSource, g: Globals): boolean {
   const L_BOUND = g.margin - 1e-6
   const T_BOUND = g.margin - 1e-6
-  const R_BOUND = g.sheet_w - g.margin + 1e-6
-  const B_BOUND = g.sheet_h - g.margin + 1e-6
+  const R_BOUND = sheet.w - g.margin + 1e-6
+  const B_BOUND = sheet.h - g.margin + 1e-6
 
   let minX = Number.POSITIVE_INFINITY
   let minY = Number.POSITIVE_INFINITY
@@ -69,24 +95,35 @@ function isPartInBounds(p: PlacedPart, g: Globals): boolean {
  * until all parts are successfully placed on sheets.
  * @param jobs - An array of `BookJob` objects from the user.
  * @param globals - The global settings.
- * @returns A flat array of all `PlacedPart`s, with correct sheet indices and positions.
+ * @param usedSheets - Stock sheets and remnants already taken by other layouts, which this one must leave alone.
+ * @returns All `PlacedPart`s, with correct sheet indices and positions, plus any warnings raised while generating them.
+ *   Sheet indices count from 0 and `sheets` lists only this layout's own sheets, whatever `usedSheets` holds.
  */
-export function generatePlacedParts(jobs: BookJob[], globals: Globals): PlacedPart[] {
-  const allParts: Part[] = jobs.flatMap((job) => mkParts(job, globals))
+export function generatePlacedParts(
+  jobs: BookJob[],
+  globals: Globals,
+  usedSheets: SheetSource[] = [],
+): GenerationResult {
+  const warnings: GenerationWarning[] = []
+  const allParts: Part[] = groupCases(jobs, globals).flatMap(({ job, compartments }) =>
+    mkParts(job, globals, warnings, compartments),
+  )
   const allPartsByUid = new Map(allParts.map((p) => [p.uid, p]))
 
   const finalPlacedParts: PlacedPart[] = []
   let partsToPack: Part[] = [...allParts]
-  let sheetIndexOffset = 0
+  let sheets: SheetSource[] = usedSheets
+  let strategy: PackingStrategy | undefined
 
   while (partsToPack.length > 0) {
-    const packedAttempt = pack(partsToPack, globals, sheetIndexOffset)
+    const { placedParts: packedAttempt, sheets: packedSheets, strategy: used } = packBest(partsToPack, globals, sheets)
+    strategy ??= used
 
     const validlyPlaced: PlacedPart[] = []
     const overflowUids = new Set<string>()
 
     for (const placedPart of packedAttempt) {
-      if (placedPart.sheetIndex === -1 || !isPartInBounds(placedPart, globals)) {
+      if (placedPart.sheetIndex === -1 || !isPartInBounds(placedPart, packedSheets[placedPart.sheetIndex], globals)) {
         overflowUids.add(placedPart.uid)
       } else {
         validlyPlaced.push(placedPart)
@@ -98,6 +135,11 @@ export function generatePlacedParts(jobs: BookJob[], globals: Globals): PlacedPa
     if (overflowUids.size > 0 && overflowUids.size === partsToPack.length) {
       // If all remaining parts overflowed, we have an infinite loop.
       const failedPart = allPartsByUid.get(Array.from(overflowUids)[0])!
+      if (stockLeft(globals, packedSheets).length === 0) {
+        throw new Error(
+          `Layout failed: the stock inventory ran out with ${overflowUids.size} part(s) still to place. Add more sheets to the inventory.`,
+        )
+      }
       throw new Error(
         `Layout failed: Part ${failedPart.partType} (${failedPart.w.toFixed(2)}"x${failedPart.h.toFixed(
           2,
@@ -107,11 +149,55 @@ export function generatePlacedParts(jobs: BookJob[], globals: Globals): PlacedPa
 
     partsToPack = Array.from(overflowUids).map((uid) => allPartsByUid.get(uid)!)
 
-    sheetIndexOffset = (finalPlacedParts.length > 0 ? Math.max(...finalPlacedParts.map((p) => p.sheetIndex)) : -1) + 1
+    // Sheets left empty after the last valid part go back to the stock for the next attempt.
+    sheets = packedSheets.slice(0, Math.max(usedSheets.length, ...finalPlacedParts.map((p) => p.sheetIndex + 1)))
+  }
+
+  const layout = {
+    placedParts: finalPlacedParts.map((p) => ({ ...p, sheetIndex: p.sheetIndex - usedSheets.length })),
+    sheets: sheets.slice(usedSheets.length),
+  }
+  return {
+    placedParts: colorByBook(layout.placedParts, jobs),
+    warnings,
+    strategy,
+    sheets: layout.sheets,
+    remnants: findRemnants(layout, globals),
   }
+}
 
+/**
+ * Generates the greedy layout as `generatePlacedParts` does, then spends up to `options.timeBudgetMs` looking
+ * for a better one. The greedy layout is kept if the optimizer cannot improve on it, or if any part of its layout
+ * fails the true-geometry bounds check.
+ * @param jobs - The book jobs.
+ * @param globals - The global settings.
+ * @param options - The optimizer's time budget, seed, progress callback and cancel signal.
+ * @returns The generation result; its strategy is marked `optimized` when the optimizer's layout was used.
+ */
+export async function generateOptimizedParts(
+  jobs: BookJob[],
+  globals: Globals,
+  options: OptimizeOptions,
+): Promise<GenerationResult> {
+  const greedy = generatePlacedParts(jobs, globals)
+  if (!(options.timeBudgetMs > 0) || !greedy.strategy) return greedy
+  const { placedParts, sheets, improved } = await optimizeLayout(greedy, greedy.strategy, globals, options)
+  if (!improved || !placedParts.every((p) => p.sheetIndex >= 0 && isPartInBounds(p, sheets[p.sheetIndex], globals))) {
+    return greedy
+  }
+  return {
+    placedParts: colorByBook(placedParts, jobs),
+    warnings: greedy.warnings,
+    strategy: { ...greedy.strategy, optimized: true },
+    sheets,
+    remnants: findRemnants({ placedParts, sheets }, globals),
+  }
+}
+
+function colorByBook(placedParts: PlacedPart[], jobs: BookJob[]): PlacedPart[] {
   const bookColors = getBookColorPalette()
-  return finalPlacedParts.map((p) => {
+  return placedParts.map((p) => {
     const bookIndex = jobs.findIndex((j) => j.id === p.jobId)
     return {
       ...p,
@@ -131,93 +217,289 @@ function getBookColorPalette(): string[] {
  * A factory function that creates all the necessary `Part` objects for a single `BookJob`.
  * @param job - The book job to create parts for.
  * @param g - The global settings.
+ * @param warnings - Collects anything the user should be told about, such as nudged magnet holes.
+ * @param compartments - For a group case, where each book sits; a divider goes between each pair.
  * @returns An array of `Part` objects (BASE, LID, FRONT, etc.).
  */
-function mkParts(job: BookJob, g: Globals): Part[] {
+function mkParts(job: BookJob, g: Globals, warnings: GenerationWarning[], compartments?: Compartment[]): Part[] {
   const { W_int, D_int, H_wall } = deriveInner(job)
+  const fingers = resolveFingerCounts(job, g, { width: W_int, depth: D_int, height: H_wall }, warnings)
+  // Top/bottom edges run along a panel's width, left/right along its height.
+  const withFingers = (edges: PanelEdges, across: EdgePair, down: EdgePair): PanelEdges => ({
+    top: { ...edges.top, fingers: fingers[across] },
+    right: { ...edges.right, fingers: fingers[down] },
+    bottom: { ...edges.bottom, fingers: fingers[across] },
+    left: { ...edges.left, fingers: fingers[down] },
+  })
+
+  const caseType = job.case_type ?? "tray"
+  const slide =
+    job.lid_style === "sliding" && !job.no_lid && caseType !== "slipcover"
+      ? slidingLidLayout(job, g, { W_int, D_int, H_wall }, fingers.height, warnings)
+      : undefined
+  if (slide) fingers.height = slide.heightSegments
+  // An inset LID rests on the flat tops of the walls, located by a LID_LIP laminated underneath that drops inside.
+  const inset = job.lid_style === "inset" && !job.no_lid && caseType !== "slipcover"
+  const lipClear = Math.max(0, job.lip_clear ?? 0)
+
+  const cores: Partial<Record<PartType, [number, number]>> = {
+    BASE: [W_int, D_int],
+    LID: slide ? [slide.lidW, slide.lidD] : inset ? [W_int + 2 * g.t, D_int + 2 * g.t] : [W_int, D_int],
+    ...(inset && { LID_LIP: [W_int - 2 * lipClear, D_int - 2 * lipClear] as [number, number] }),
+    FRONT: [W_int, slide ? slide.frontH : H_wall],
+    BACK: [W_int, H_wall],
+    LEFT: [D_int, H_wall],
+    RIGHT: [D_int, H_wall],
+  }
+  const padRects = padsByPart(job.pads ?? [], cores, g.t)
+  ;(job.cutouts ?? []).forEach((c, i) => {
+    const [w, h] = cores[c.part] ?? [0, 0]
+    const halfW = c.w / 2,
+      halfH = c.shape === "circle" ? c.w / 2 : c.h / 2
+    if (c.x - halfW < 0 || c.y - halfH < 0 || c.x + halfW > w || c.y + halfH > h) {
+      warnings.push({
+        jobId: job.id,
+        bookName: job.name,
+        partType: c.part,
+        message: `Cutout ${i + 1} extends past the inside of the ${c.part} panel and will cut into its joints or edge.`,
+      })
+    }
+  })
+
+  if (job.no_lid && job.dot_pattern) {
+    warnings.push({
+      jobId: job.id,
+      bookName: job.name,
+      message: "An open-top case has no LID to carry the light-extraction dots; they have been left out.",
+    })
+  }
+
+  // A slip-cover leaves out the wall at its open end, and an open-top case leaves out the LID. Every edge that
+  // would have joined a missing panel is cut flat, except the walls' top edges when they keep their fingers.
+  // Sliding and inset LIDs join no edges at all.
+  const omitted = new Set<PartType>()
+  if (caseType === "slipcover") omitted.add((HINGE_EDGES[job.open_end] ?? HINGE_EDGES.SPINE).wall)
+  if (job.no_lid) omitted.add("LID")
+  const unjoined = [...omitted].filter((ptype) => ptype !== "LID" || job.flush_top)
+  if (slide || inset) unjoined.push("LID")
+  const flatEdges = new Set(
+    unjoined.flatMap((ptype) => Object.values(MATING_EDGES[ptype] ?? {}).map(({ part, side }) => `${part}:${side}`)),
+  )
+  const closeOff = (ptype: PartType, edges: PanelEdges): PanelEdges => {
+    const out = { ...edges }
+    for (const side of Object.keys(out) as PanelSide[]) {
+      if (flatEdges.has(`${ptype}:${side}`)) out[side] = { ...out[side], teeth: false }
+    }
+    return out
+  }
+
+  // Dividers stand on the BASE and stop below whatever the LID brings down into the case.
+  const dividers = dividerLayout(
+    job,
+    g,
+    { W_int, D_int, H_wall },
+    slide ? H_wall - slide.frontH : inset ? g.t : 0,
+    compartments?.slice(1).map((c) => c.x0 - g.t / 2),
+    omitted,
+    warnings,
+  )
+
+  // Under a sliding LID, LEFT/RIGHT are cut inside-face up so their grooves are engraved on the inside. Features
+  // measured with the walls seen from outside are mirrored to match, and the side-wall edges that would have met
+  // the missing top of the FRONT wall are kept flat.
+  const mirrored = (ptype: PartType) => !!slide && (ptype === "LEFT" || ptype === "RIGHT")
+  const slidePads: Partial<Record<PartType, Rect[]>> = slide
+    ? {
+        LEFT: [{ x: -g.t, y: 0, w: 2 * g.t, h: slide.flatSpan }],
+        RIGHT: [{ x: D_int - g.t, y: 0, w: 2 * g.t, h: slide.flatSpan }],
+      }
+    : {}
+  const hinge = HINGE_EDGES[job.hinge_edge] ?? HINGE_EDGES.FORE
+  // Slip-cover LIDs are glued in place, sliding and inset LIDs lift off freely and open-top cases have no LID at all.
+  const hingeStyle = caseType === "slipcover" || job.no_lid || slide || inset ? undefined : (job.hinge_style ?? "tape")
+  const hingeStrip = hingeStyle === "tape" ? job.tape_reserved_strip : 0
+  const [hingeLen, wallH] = cores[hinge.wall] ?? [0, 0]
+  const lidRoom = hinge.side === "left" || hinge.side === "right" ? W_int : D_int
+  const knuckles =
+    hingeStyle === "knuckle" ? knuckleHingeLayout(job, g, hingeLen, Math.min(wallH, lidRoom), warnings) : undefined
+
+  const featuresFor = (ptype: PartType) => {
+    const w = cores[ptype]?.[0] ?? 0
+    const flip = mirrored(ptype)
+    return {
+      pads: [
+        ...(padRects[ptype] ?? []).map((r) => (flip ? { ...r, x: w - r.x - r.w } : r)),
+        ...(slidePads[ptype] ?? []),
+      ],
+      cutouts: [
+        ...(job.cutouts ?? []).filter((c) => c.part === ptype).map((c) => (flip ? { ...c, x: w - c.x } : c)),
+        ...(dividers ? dividerSlots(dividers, ptype, cores[ptype]?.[1] ?? 0, job, g) : []),
+        ...(knuckles ? knuckleSlots(knuckles, ptype, hinge, cores[ptype] ?? [0, 0], job, g) : []),
+      ],
+    }
+  }
 
   const baseRaw = makeFingerJointedPanel(
     W_int,
     D_int,
-    {
-      top: { teeth: true, role: "female" },
-      right: { teeth: true, role: "female" },
-      bottom: { teeth: true, role: "female" },
-      left: { teeth: true, role: "female" },
-    },
-    {},
+    closeOff(
+      "BASE",
+      withFingers(
+        {
+          top: { teeth: true, role: "female" },
+          right: { teeth: true, role: "female" },
+          bottom: { teeth: true, role: "female" },
+          left: { teeth: true, role: "female" },
+        },
+        "width",
+        "depth",
+      ),
+    ),
+    featuresFor("BASE"),
     g,
     job,
   )
-  let magnetHoles: { cx: number; cy: number; r: number }[] = []
-  const rNom = (job.mag_diam + job.mag_clear + g.kerf) / 2
-  if (job.mag_count >= 2) {
-    magnetHoles.push(
-      { cx: job.mag_edge_offset, cy: job.mag_edge_offset, r: rNom },
-      { cx: W_int - job.mag_edge_offset, cy: job.mag_edge_offset, r: rNom },
-    )
-  }
-  if (job.mag_count === 4) {
-    magnetHoles.push(
-      { cx: job.mag_edge_offset, cy: D_int - job.mag_edge_offset, r: rNom },
-      { cx: W_int - job.mag_edge_offset, cy: D_int - job.mag_edge_offset, r: rNom },
-    )
-  }
-  magnetHoles = magnetHoles.map((h) => enforceHoleClearances(h, baseRaw.width, baseRaw.height, baseRaw.valleyPts, g.t))
-  const finalInnerCuts = [...baseRaw.innerCutDs]
-  for (const h of magnetHoles) {
-    const r = h.r - g.kerf / 2
-    finalInnerCuts.push(`M ${h.cx - r},${h.cy} a ${r},${r} 0 1,0 ${2 * r},0 a ${r},${r} 0 1,0 -${2 * r},0`)
-  }
-  const baseGeom = { ...baseRaw, innerCutDs: finalInnerCuts, magnetHoles: magnetHoles }
 
-  const lidEdges = {
+  const lidEdges: PanelEdges = {
     top: { teeth: true, role: "female" },
-    right: { teeth: true, role: "female", reserveStrip: job.tape_reserved_strip },
+    right: { teeth: true, role: "female" },
     bottom: { teeth: true, role: "female" },
     left: { teeth: true, role: "female" },
   }
-  const LID = makeFingerJointedPanel(W_int, D_int, lidEdges, {}, g, job)
-  if (job.tape_guide) {
-    const guideYStart = lidEdges.right.reserveStrip ? lidEdges.right.reserveStrip : 0
-    const guideYEnd = D_int - (lidEdges.right.reserveStrip ? lidEdges.right.reserveStrip : 0)
-    LID.scoreDs.push(`M ${W_int} ${guideYStart + 0.1} L ${W_int} ${guideYEnd - 0.1}`)
+  if (hingeStrip) lidEdges[hinge.side].reserveStrip = hingeStrip
+  const plainEdges: PanelEdges = {
+    top: { teeth: false, role: "female" },
+    right: { teeth: false, role: "female" },
+    bottom: { teeth: false, role: "female" },
+    left: { teeth: false, role: "female" },
+  }
+  const LID =
+    slide || inset
+      ? makeFingerJointedPanel(cores.LID![0], cores.LID![1], plainEdges, featuresFor("LID"), g, job)
+      : makeFingerJointedPanel(
+          W_int,
+          D_int,
+          closeOff("LID", withFingers(lidEdges, "width", "depth")),
+          featuresFor("LID"),
+          g,
+          job,
+        )
+  if (hingeStyle === "living") {
+    LID.innerCutDs.push(...livingHingeSlits(hinge.side, W_int, D_int, LID.coreOffset, g))
+  } else if (job.tape_guide && hingeStrip) {
+    LID.scoreDs.push(hingeGuidePath(hinge.side, W_int, D_int, job.tape_reserved_strip, LID.coreOffset))
   }
 
-  const frontEdges = {
-    top: { teeth: true, role: "male" },
-    right: { teeth: true, role: "male" },
-    bottom: { teeth: true, role: "male" },
-    left: { teeth: true, role: "male" },
+  const rNom = (job.mag_diam + job.mag_clear + g.kerf) / 2
+  const nominalMagnets = layoutMagnets(job, W_int, D_int, baseRaw.width, baseRaw.height, rNom)
+  let magnetHoles = nominalMagnets
+  // A blind pocket only makes sense when the magnet is thinner than the sheet; otherwise cut straight through.
+  const pocketMagnets = job.mag_mount === "pocket" && job.mag_thick > 0 && job.mag_thick < g.t
+  let lidMagnetHoles: { cx: number; cy: number; r: number }[] = []
+  if (job.mag_lid && (slide || inset)) {
+    warnings.push({
+      jobId: job.id,
+      bookName: job.name,
+      partType: "LID",
+      message: `The ${slide ? "sliding" : "inset"} LID does not close onto the BASE magnets; it gets no matching holes.`,
+    })
   }
-  const backEdges = {
-    top: { teeth: true, role: "male" },
-    right: { teeth: true, role: "male", reserveStrip: job.tape_reserved_strip },
-    bottom: { teeth: true, role: "male" },
-    left: { teeth: true, role: "male" },
+  if (job.mag_lid && !job.no_lid && !slide && !inset) {
+    // The LID is installed pocket-face-down when pocketing, which mirrors it across the axis perpendicular to the hinge.
+    const mirror = (p: Point): Point => {
+      if (!pocketMagnets) return p
+      return hinge.side === "left" || hinge.side === "right" ? { x: p.x, y: D_int - p.y } : { x: W_int - p.x, y: p.y }
+    }
+    const aligned = magnetHoles.map((h) =>
+      alignMagnetPair(h, baseRaw, LID, mirror, {
+        side: hinge.side,
+        band: hingeStrip,
+        w: W_int,
+        h: D_int,
+        t: g.t,
+      }),
+    )
+    magnetHoles = aligned.map((a) => a.base)
+    lidMagnetHoles = aligned.map((a) => a.lid)
+  } else {
+    magnetHoles = magnetHoles.map((h) =>
+      enforceHoleClearances(h, baseRaw.width, baseRaw.height, baseRaw.valleyPts, g.t),
+    )
   }
-  const leftEdges = {
-    top: { teeth: true, role: "male" },
-    right: { teeth: true, role: "female" },
+  nominalMagnets.forEach((nom, i) => {
+    const moved = magnetHoles[i]
+    if (Math.hypot(moved.cx - nom.cx, moved.cy - nom.cy) > 1e-4) {
+      warnings.push({
+        jobId: job.id,
+        bookName: job.name,
+        partType: "BASE",
+        message: `Magnet ${i + 1} moved from (${nom.cx.toFixed(3)}, ${nom.cy.toFixed(3)}) to (${moved.cx.toFixed(
+          3,
+        )}, ${moved.cy.toFixed(3)}) to clear edges and joints.`,
+      })
+    }
+  })
+  const baseGeom = withCompartmentLabels(withMagnets(baseRaw, magnetHoles, pocketMagnets, job, g), compartments, D_int)
+  const lidGeom = withMagnets(LID, lidMagnetHoles, pocketMagnets, job, g)
+
+  // Every wall's top edge mates with the LID; the hinge wall keeps the same un-toothed strip as the LID edge above it.
+  const wallEdges = (sideRole: JointRole, ptype: PartType): PanelEdges => ({
+    top: {
+      teeth: true,
+      role: "male",
+      ...(ptype === hinge.wall && hingeStrip ? { reserveStrip: hingeStrip } : {}),
+    },
+    right: { teeth: true, role: sideRole },
     bottom: { teeth: true, role: "male" },
-    left: { teeth: true, role: "female" },
+    left: { teeth: true, role: sideRole },
+  })
+  const frontEdges = closeOff("FRONT", withFingers(wallEdges("male", "FRONT"), "width", "height"))
+  const backEdges = closeOff("BACK", withFingers(wallEdges("male", "BACK"), "width", "height"))
+  const leftEdges = closeOff("LEFT", withFingers(wallEdges("female", "LEFT"), "depth", "height"))
+  const rightEdges = closeOff("RIGHT", withFingers(wallEdges("female", "RIGHT"), "depth", "height"))
+
+  if (slide) {
+    frontEdges.left = { ...frontEdges.left, fingers: slide.frontSegments }
+    frontEdges.right = { ...frontEdges.right, fingers: slide.frontSegments }
   }
-  const rightEdges = {
-    top: { teeth: true, role: "male" },
-    right: { teeth: true, role: "female" },
-    bottom: { teeth: true, role: "male" },
-    left: { teeth: true, role: "female" },
+
+  const FRONT = makeFingerJointedPanel(W_int, cores.FRONT![1], frontEdges, featuresFor("FRONT"), g, job)
+  const BACK = makeFingerJointedPanel(W_int, H_wall, backEdges, featuresFor("BACK"), g, job)
+  let LEFT = makeFingerJointedPanel(D_int, H_wall, leftEdges, featuresFor("LEFT"), g, job)
+  let RIGHT = makeFingerJointedPanel(D_int, H_wall, rightEdges, featuresFor("RIGHT"), g, job)
+  if (slide) {
+    // Seen from inside, the FRONT end of LEFT is on its left and the FRONT end of RIGHT on its right.
+    LEFT = withSlideGroove(LEFT, "left", D_int, slide)
+    RIGHT = withSlideGroove(RIGHT, "right", D_int, slide)
   }
 
-  const FRONT = makeFingerJointedPanel(W_int, H_wall, frontEdges, {}, g, job)
-  const BACK = makeFingerJointedPanel(W_int, H_wall, backEdges, {}, g, job)
-  const LEFT = makeFingerJointedPanel(D_int, H_wall, leftEdges, {}, g, job)
-  const RIGHT = makeFingerJointedPanel(D_int, H_wall, rightEdges, {}, g, job)
+  let lip: PanelGeom | undefined
+  if (inset) {
+    const [lipW, lipD] = cores.LID_LIP!
+    if (lipW <= 2 * g.t || lipD <= 2 * g.t) {
+      warnings.push({
+        jobId: job.id,
+        bookName: job.name,
+        partType: "LID_LIP",
+        message: "The lip clearance leaves too little of the LID_LIP to locate the LID; it has been left out.",
+      })
+    } else {
+      lip = makeFingerJointedPanel(lipW, lipD, plainEdges, featuresFor("LID_LIP"), g, job)
+      if (job.dot_pattern) {
+        warnings.push({
+          jobId: job.id,
+          bookName: job.name,
+          partType: "LID_LIP",
+          message: "The LID_LIP sits under the LID and will block the light-extraction dots.",
+        })
+      }
+    }
+  }
 
   let partCounter = 0
   function partify(
-    ptype: "BASE" | "LID" | "FRONT" | "BACK" | "LEFT" | "RIGHT",
-    geom: ReturnType<typeof makeFingerJointedPanel> & { magnetHoles?: { cx: number; cy: number; r: number }[] },
+    ptype: PartType,
+    geom: PanelGeom & { magnetHoles?: { cx: number; cy: number; r: number }[]; engraveLabels?: Part["engraveLabels"] },
   ): Part {
     return {
       uid: `${job.id}:${ptype}:${partCounter++}`,
@@ -229,26 +511,1155 @@ function mkParts(job: BookJob, g: Globals): Part[] {
       outerCutD: geom.outerCutD,
       innerCutDs: geom.innerCutDs,
       scoreDs: geom.scoreDs,
+      depthEngraveDs: geom.depthEngraveDs,
+      patternDs: geom.patternDs,
       holes: [...(geom.holes || []), ...(geom.magnetHoles || [])],
       contourPoints: geom.contourPoints,
       labelAt: geom.labelCenter,
+      engraveLabels: geom.engraveLabels ?? [],
     }
   }
 
+  const fitted = <G extends PanelGeom>(ptype: PartType, geom: G): G => {
+    const core = cores[ptype] ?? [0, 0]
+    const lit = withLighting(geom, ptype, core, job, g, warnings)
+    const placements = (job.components ?? [])
+      .filter((c) => c.part === ptype)
+      .map((c) => (mirrored(ptype) ? { ...c, offset: core[0] - c.offset } : c))
+    const fitted = withComponents(lit, placements, core, job, g, warnings)
+    // The dots go in last so they can steer clear of every hole already on the LID.
+    if (ptype === "LID" && job.dot_pattern) {
+      return { ...fitted, patternDs: [...fitted.patternDs, ...lightExtractionDots(fitted, core, job)] }
+    }
+    return fitted
+  }
+
+  const panels: [PartType, PanelGeom & { magnetHoles?: { cx: number; cy: number; r: number }[] }][] = [
+    ["BASE", baseGeom],
+    ["LID", lidGeom],
+    ...(lip ? [["LID_LIP", lip] as [PartType, PanelGeom]] : []),
+    ["FRONT", FRONT],
+    ["BACK", BACK],
+    ["LEFT", LEFT],
+    ["RIGHT", RIGHT],
+  ]
   return [
-    partify("BASE", baseGeom),
-    partify("LID", LID),
-    partify("FRONT", FRONT),
-    partify("BACK", BACK),
-    partify("LEFT", LEFT),
-    partify("RIGHT", RIGHT),
+    ...panels.filter(([ptype]) => !omitted.has(ptype)).map(([ptype, geom]) => partify(ptype, fitted(ptype, geom))),
+    ...(dividers ? makeDividers(dividers, job, g).map((geom) => partify("DIVIDER", geom)) : []),
+    ...(knuckles ? makeHingeBarrels(knuckles, g).map((geom) => partify("HINGE_BARREL", geom)) : []),
   ]
 }
 
+/** Depth of the frosted diffuser band: just enough to scatter light without weakening the wall. */
+const DIFFUSER_DEPTH = 0.005
+
+/**
+ * Adds the light-source geometry to a panel.
+ * - `wall_slots`: every wall gets a window as tall as the LED strip is wide (plus joint clearance), centered on
+ *   the glow band and stopping short of the corner joints, so a strip mounted behind it shines straight out.
+ *   The window keeps `t/2` of material below the top joint, and is cut down to the band when it would not fit.
+ * - `base_groove`: the BASE gets a pocket of the strip's width and thickness running around the inside of its
+ *   joints, for a strip laid flat along the foot of the walls.
+ * - `diffuser_band`: every wall's glow band (the top `h_visible` of its core) is frosted with a shallow engrave.
+ * @param geom - The panel geometry.
+ * @param ptype - Which panel this is.
+ * @param core - The core width and height of the panel.
+ * @param job - The parent book job.
+ * @param g - The global settings.
+ * @param warnings - Collects strips that do not fit, or that run into magnet holes.
+ * @returns The panel geometry with the channel and diffuser added.
+ */
+function withLighting<G extends PanelGeom & { magnetHoles?: { cx: number; cy: number; r: number }[] }>(
+  geom: G,
+  ptype: PartType,
+  core: [number, number],
+  job: BookJob,
+  g: Globals,
+  warnings: GenerationWarning[],
+): G {
+  const isWall = ptype === "FRONT" || ptype === "BACK" || ptype === "LEFT" || ptype === "RIGHT"
+  const channel = job.led_channel ?? "none"
+  const [coreW, coreH] = core
+  const { x: ox, y: oy } = geom.coreOffset
+  const stripW = job.led_w + 2 * job.joint_clear
+  const f = (n: number) => n.toFixed(4)
+  // Axis-aligned rectangles in core coordinates, traced clockwise or counter-clockwise on screen.
+  const rect = (x0: number, y0: number, x1: number, y1: number) =>
+    `M ${f(ox + x0)} ${f(oy + y0)} H ${f(ox + x1)} V ${f(oy + y1)} H ${f(ox + x0)} Z`
+  const rectCcw = (x0: number, y0: number, x1: number, y1: number) =>
+    `M ${f(ox + x0)} ${f(oy + y0)} V ${f(oy + y1)} H ${f(ox + x1)} V ${f(oy + y0)} Z`
+  const warn = (message: string) => warnings.push({ jobId: job.id, bookName: job.name, partType: ptype, message })
+
+  const innerCutDs = [...geom.innerCutDs]
+  const depthEngraveDs = [...geom.depthEngraveDs]
+  // Core coordinates run downward from the wall's top edge, so the glow band starts at y = 0.
+  const glowH = Math.min(job.h_visible, coreH)
+
+  if (isWall && job.diffuser_band && glowH > 0) {
+    depthEngraveDs.push({ d: rect(0, 0, coreW, glowH), depth: DIFFUSER_DEPTH })
+  }
+
+  if (isWall && channel === "wall_slots" && job.led_w > 0) {
+    const margin = Math.max(2 * g.t, 0.25)
+    const top = Math.max(g.t / 2, (glowH - stripW) / 2)
+    const bottom = Math.min(glowH, top + stripW)
+    if (coreW - 2 * margin <= 0) {
+      warn("The wall is too short for an LED window.")
+    } else if (bottom - top <= g.kerf) {
+      warn(`The ${job.h_visible}" glow band leaves no room for an LED window below the top joint.`)
+    } else {
+      const slot: Cutout = {
+        part: ptype,
+        shape: "rect",
+        x: ox + coreW / 2,
+        y: oy + (top + bottom) / 2,
+        w: coreW - 2 * margin,
+        h: bottom - top,
+      }
+      innerCutDs.push(cutoutPath(slot, -g.kerf / 2))
+    }
+  }
+
+  if (ptype === "BASE" && channel === "base_groove" && job.led_w > 0) {
+    let depth = job.led_thick
+    if (depth >= g.t) {
+      depth = 0.75 * g.t
+      warn(`The LED strip is thicker than the sheet; its groove is limited to ${depth.toFixed(3)}" deep.`)
+    }
+    if (2 * stripW >= Math.min(coreW, coreH)) {
+      warn("The BASE is too small for an LED groove.")
+    } else {
+      // Opposite windings, so the nonzero fill leaves the middle of the BASE untouched.
+      const inner = rectCcw(stripW, stripW, coreW - stripW, coreH - stripW)
+      depthEngraveDs.push({ d: `${rect(0, 0, coreW, coreH)} ${inner}`, depth })
+      const crossed = (geom.magnetHoles ?? []).filter(({ cx, cy, r }) => {
+        const x = cx - ox,
+          y = cy - oy
+        return x - r < stripW || y - r < stripW || x + r > coreW - stripW || y + r > coreH - stripW
+      })
+      if (crossed.length) warn(`The LED groove runs through ${crossed.length} magnet hole(s).`)
+    }
+  }
+
+  return { ...geom, innerCutDs, depthEngraveDs }
+}
+
+/**
+ * Lays out the light-extraction dots for an edge-lit LID on a staggered grid. Light enters from the edges and
+ * fades toward the middle, so dots grow from `dot_min` at the border to `dot_max` at the point furthest from
+ * any edge, following `(distance / furthest) ^ dot_falloff`.
+ * Dots are left out of the `dot_border` margin, which also keeps them off the tape laid over the hinge edge's
+ * reserved spans, and out of a half-pitch ring around every hole in the panel.
+ * @param geom - The LID geometry, with all of its holes in place.
+ * @param core - The core width and height of the LID.
+ * @param job - The parent book job, for the pattern settings.
+ * @returns The SVG path data for each dot.
+ */
+function lightExtractionDots(
+  geom: PanelGeom & { magnetHoles?: { cx: number; cy: number; r: number }[] },
+  core: [number, number],
+  job: BookJob,
+): string[] {
+  const [coreW, coreH] = core
+  const pitch = job.dot_pitch
+  if (!(pitch > 0)) return []
+  const border = Math.max(0, job.dot_border ?? 0)
+  const falloff = job.dot_falloff > 0 ? job.dot_falloff : 1
+  const furthest = Math.min(coreW, coreH) / 2
+  const holes = [...geom.holes, ...(geom.magnetHoles ?? [])]
+  const { x: ox, y: oy } = geom.coreOffset
+
+  const dots: string[] = []
+  const rowPitch = (pitch * Math.sqrt(3)) / 2
+  for (let row = 0, y = border; y <= coreH - border; row++, y = border + row * rowPitch) {
+    for (let x = border + (row % 2 ? pitch / 2 : 0); x <= coreW - border; x += pitch) {
+      const edgeDist = Math.min(x, y, coreW - x, coreH - y)
+      const s = furthest > 0 ? Math.min(1, edgeDist / furthest) ** falloff : 0
+      const r = (job.dot_min + (job.dot_max - job.dot_min) * s) / 2
+      if (r <= 0) continue
+      const cx = x + ox,
+        cy = y + oy
+      if (holes.some((h) => Math.hypot(cx - h.cx, cy - h.cy) < h.r + r + pitch / 2)) continue
+      dots.push(circlePath({ cx, cy, r }, 0))
+    }
+  }
+  return dots
+}
+
+/**
+ * Panel openings for common book-light electronics, as cutouts around the component's center, in inches.
+ * Openings are the mating plug or actuator outline plus a little clearance; holder screw holes suit M3 / #4 screws.
+ */
+const COMPONENT_FOOTPRINTS: Record<ComponentKind, { label: string; cutouts: Omit<Cutout, "part">[] }> = {
+  // 9.5 x 3.5 mm, the USB-C plug overmold with clearance.
+  usb_c: { label: "USB-C receptacle", cutouts: [{ shape: "slot", x: 0, y: 0, w: 0.374, h: 0.138 }] },
+  // 8.0 x 3.3 mm.
+  micro_usb: { label: "Micro-USB", cutouts: [{ shape: "rounded_rect", x: 0, y: 0, w: 0.315, h: 0.13, r: 0.02 }] },
+  // 8 mm, the M8 thread of a panel-mount 5.5 x 2.1 mm jack.
+  barrel_jack: { label: "5.5 mm barrel jack", cutouts: [{ shape: "circle", x: 0, y: 0, w: 0.315, h: 0.315 }] },
+  // 4.5 x 2.0 mm: the 1.5 mm actuator plus its 3 mm of travel.
+  ss12_switch: { label: "SS12 slide switch", cutouts: [{ shape: "rect", x: 0, y: 0, w: 0.177, h: 0.079 }] },
+  // Two 3.2 mm holes, 25 mm apart.
+  aa2_holder: {
+    label: "2xAA holder",
+    cutouts: [
+      { shape: "circle", x: -0.492, y: 0, w: 0.126, h: 0.126 },
+      { shape: "circle", x: 0.492, y: 0, w: 0.126, h: 0.126 },
+    ],
+  },
+  // Two 3.2 mm holes, 60 mm apart.
+  holder_18650: {
+    label: "18650 holder",
+    cutouts: [
+      { shape: "circle", x: -1.181, y: 0, w: 0.126, h: 0.126 },
+      { shape: "circle", x: 1.181, y: 0, w: 0.126, h: 0.126 },
+    ],
+  },
+}
+
+/**
+ * Cuts component footprints into a panel. Each opening is held to the same edge and finger-valley clearances
+ * as magnet holes; if that nudges one, the whole footprint moves with it and a warning is raised. Footprints that still cross the joints afterwards are cut anyway, with a warning.
+ * @param geom - The panel geometry.
+ * @param placements - The footprints placed on this panel.
+ * @param core - The core width and height of the panel.
+ * @param job - The parent book job.
+ * @param g - The global settings.
+ * @param warnings - Collects nudged and ill-fitting footprints.
+ * @returns The panel geometry with the openings added to its inner cuts and holes.
+ */
+function withComponents<G extends PanelGeom>(
+  geom: G,
+  placements: ComponentPlacement[],
+  core: [number, number],
+  job: BookJob,
+  g: Globals,
+  warnings: GenerationWarning[],
+): G {
+  if (placements.length === 0) return geom
+  const [coreW, coreH] = core
+  const innerCutDs = [...geom.innerCutDs]
+  const holes = [...geom.holes]
+  for (const placement of placements) {
+    const footprint = COMPONENT_FOOTPRINTS[placement.kind]
+    if (!footprint) continue
+    const shapes = footprint.cutouts.map((c) => (placement.rotated ? { ...c, x: c.y, y: c.x, w: c.h, h: c.w } : c))
+    const extentX = Math.max(...shapes.map((c) => Math.abs(c.x) + c.w / 2)),
+      extentY = Math.max(...shapes.map((c) => Math.abs(c.y) + (c.shape === "circle" ? c.w : c.h) / 2))
+    const nominal = { x: placement.offset, y: coreH - (placement.elevation ?? coreH / 2) }
+    const toPanel = (shape: Omit<Cutout, "part">, at: Point): Cutout => ({
+      ...shape,
+      part: placement.part,
+      x: at.x + shape.x + geom.coreOffset.x,
+      y: at.y + shape.y + geom.coreOffset.y,
+    })
+    // Every opening is checked on its own and the whole footprint takes the largest nudge, until none is needed.
+    let center = nominal
+    for (let i = 0; i < 4; i++) {
+      let shift = { x: 0, y: 0 }
+      for (const shape of shapes) {
+        const hole = cutoutBounds(toPanel(shape, center))
+        const moved = enforceHoleClearances(hole, geom.width, geom.height, geom.valleyPts, g.t)
+        if (Math.hypot(moved.cx - hole.cx, moved.cy - hole.cy) > Math.hypot(shift.x, shift.y)) {
+          shift = { x: moved.cx - hole.cx, y: moved.cy - hole.cy }
+        }
+      }
+      if (Math.hypot(shift.x, shift.y) < 1e-6) break
+      center = { x: center.x + shift.x, y: center.y + shift.y }
+    }
+    const where = `${footprint.label} on ${placement.part}`
+    if (Math.hypot(center.x - nominal.x, center.y - nominal.y) > 1e-4) {
+      warnings.push({
+        jobId: job.id,
+        bookName: job.name,
+        partType: placement.part,
+        message: `${where} moved from offset ${nominal.x.toFixed(3)}, elevation ${(coreH - nominal.y).toFixed(
+          3,
+        )} to offset ${center.x.toFixed(3)}, elevation ${(coreH - center.y).toFixed(3)} to clear edges and joints.`,
+      })
+    }
+    if (center.x - extentX < 0 || center.y - extentY < 0 || center.x + extentX > coreW || center.y + extentY > coreH) {
+      warnings.push({
+        jobId: job.id,
+        bookName: job.name,
+        partType: placement.part,
+        message: `${where} does not fit inside the panel's joints.`,
+      })
+    }
+    for (const shape of shapes) {
+      const cutout = toPanel(shape, center)
+      innerCutDs.push(cutoutPath(cutout, -g.kerf / 2))
+      holes.push(cutoutBounds(cutout))
+    }
+  }
+  return { ...geom, innerCutDs, holes }
+}
+
+/**
+ * Sizes a sliding LID and the walls around it. The grooves start one sheet thickness below the top of LEFT/RIGHT,
+ * leaving a full-thickness lip above the LID, and are as tall as the sheet plus `slide_clear`.
+ * The FRONT wall is cut down to a whole number of finger segments below the grooves, dropping an even number from
+ * the top so its joints stay in step with the side walls, which may split the wall height into finer segments. The LID spans the inside plus both grooves, and runs
+ * from the BACK wall (less the clearance) out over the top of the FRONT wall.
+ * @param job - The book job.
+ * @param g - The global settings.
+ * @param inner - The case's inner dimensions.
+ * @param heightSegments - The finger segment count along the wall height.
+ * @param warnings - Collects grooves that had to be made shallower, and walls too short for a sliding LID.
+ * @returns The sliding LID layout, or `undefined` when the walls are too short for one.
+ */
+function slidingLidLayout(
+  job: BookJob,
+  g: Globals,
+  inner: { W_int: number; D_int: number; H_wall: number },
+  heightSegments: number,
+  warnings: GenerationWarning[],
+) {
+  const { W_int, D_int, H_wall } = inner
+  const warn = (message: string) => warnings.push({ jobId: job.id, bookName: job.name, message })
+  const clear = Math.max(0, job.slide_clear ?? 0)
+  const grooveTop = g.t
+  const grooveH = g.t + clear
+  const grooveBottom = grooveTop + grooveH
+  // Coarse segments would leave a wide gap between the LID and the cut-down FRONT wall, so the height edges are
+  // split finer (keeping their parity) until dropping two segments just clears the grooves.
+  let n = heightSegments
+  const finest = Math.floor((2 * H_wall) / grooveBottom + 1e-9)
+  if (finest > n) n = finest - ((finest - n) % 2)
+  const seg = H_wall / n
+  let k = Math.floor((H_wall - grooveBottom) / seg + 1e-9)
+  if ((n - k) % 2 !== 0) k--
+  if (k < 1) {
+    warn("The walls are too short for a sliding lid; using a hinged lid instead.")
+    return undefined
+  }
+  let depth = job.slide_depth
+  if (!(depth > clear) || depth >= g.t) {
+    depth = Math.max(clear + 0.01, g.t / 2)
+    warn(
+      `The sliding lid's grooves must be shallower than the sheet and deeper than the clearance; using ${depth.toFixed(3)}".`,
+    )
+  }
+  if (!job.symmetric_ends) {
+    warn(
+      "LEFT and RIGHT are flipped to put the sliding lid's grooves inside; use symmetric ends so their fingers still line up.",
+    )
+  }
+  return {
+    grooveTop,
+    grooveH,
+    depth,
+    heightSegments: n,
+    frontSegments: k,
+    frontH: k * seg,
+    // Stops just short of the first kept segment, so it never flattens one by rounding.
+    flatSpan: (n - k) * seg - 1e-6,
+    lidW: W_int + 2 * (depth - clear),
+    lidD: D_int + g.t - clear,
+  }
+}
+
+type Compartment = { name: string; x0: number; x1: number }
+
+/**
+ * Merges books that share a `group_id` into one case, side by side from LEFT to RIGHT in list order.
+ * The first book of each group supplies the case's settings; its interior is as wide as all the books plus a
+ * divider between each pair, and as deep and tall as the largest of them.
+ * @param jobs - The book jobs.
+ * @param g - The global settings.
+ * @returns One entry per case, with each grouped case's compartments in interior coordinates.
+ */
+function groupCases(jobs: BookJob[], g: Globals): { job: BookJob; compartments?: Compartment[] }[] {
+  return groupBooksByCase(jobs).map((members) => {
+    const lead = members[0]
+    if (members.length < 2) return { job: lead }
+    let x = 0
+    const compartments = members.map((m) => {
+      const w = m.W_ext - 2 * m.clear_side
+      const c = { name: m.name, x0: x, x1: x + w }
+      x += w + g.t
+      return c
+    })
+    const W_int = x - g.t
+    const D_int = Math.max(...members.map((m) => m.D_ext - 2 * m.clear_depth))
+    const job: BookJob = {
+      ...lead,
+      name: members.map((m) => m.name).join(" + "),
+      W_ext: W_int + 2 * lead.clear_side,
+      D_ext: D_int + 2 * lead.clear_depth,
+      H_ext: Math.max(...members.map((m) => m.H_ext)),
+    }
+    return { job, compartments }
+  })
+}
+
+/**
+ * Splits the books into the cases they are built in: each book on its own, except that books sharing a `group_id`
+ * share one case. Cases come in the order of their first book, and each case's books in list order.
+ * @param jobs - The book jobs.
+ * @returns The books of each case.
+ */
+export function groupBooksByCase(jobs: BookJob[]): BookJob[][] {
+  const groups = new Map<string, BookJob[]>()
+  const cases: BookJob[][] = []
+  for (const job of jobs) {
+    const key = job.group_id?.trim()
+    const members = key ? groups.get(key) : undefined
+    if (members) {
+      members.push(job)
+      continue
+    }
+    const created = [job]
+    if (key) groups.set(key, created)
+    cases.push(created)
+  }
+  return cases
+}
+
+/**
+ * Labels each compartment of a group case with its book's name, on the BASE toward the BACK wall so the labels
+ * clear the part's own label in the middle.
+ * @param geom - The BASE geometry.
+ * @param compartments - The compartments, if this is a group case.
+ * @param D_int - The interior depth.
+ * @returns The BASE geometry with its compartment labels.
+ */
+function withCompartmentLabels<G extends PanelGeom>(
+  geom: G,
+  compartments: Compartment[] | undefined,
+  D_int: number,
+): G & { engraveLabels: Part["engraveLabels"] } {
+  const { x: ox, y: oy } = geom.coreOffset
+  const engraveLabels = (compartments ?? []).map((c) => ({
+    text: c.name,
+    x: ox + (c.x0 + c.x1) / 2,
+    y: oy + D_int / 4,
+    w: c.x1 - c.x0,
+    h: D_int / 2,
+  }))
+  return { ...geom, engraveLabels }
+}
+
+/**
+ * Spaces the job's dividers evenly across the inside of the case and sizes them.
+ * Each divider ends in a column of tabs that pass through slots in the walls at its ends; a divider
+ * running into a wall the case leaves out just ends flat.
+ * @param job - The book job.
+ * @param g - The global settings.
+ * @param inner - The case's inner dimensions.
+ * @param headroom - How far below the top of the walls the dividers must stop.
+ * @param crossAt - Fixed cross divider positions, e.g. between the books of a group case, used instead of
+ *   `dividers_cross`.
+ * @param omitted - The panels the case leaves out.
+ * @param warnings - Collects dividers that had to be left out.
+ * @returns The divider layout, or `undefined` when there are no dividers to cut.
+ */
+function dividerLayout(
+  job: BookJob,
+  g: Globals,
+  inner: { W_int: number; D_int: number; H_wall: number },
+  headroom: number,
+  crossAt: number[] | undefined,
+  omitted: Set<PartType>,
+  warnings: GenerationWarning[],
+) {
+  const { W_int, D_int, H_wall } = inner
+  const warn = (message: string) => warnings.push({ jobId: job.id, bookName: job.name, partType: "DIVIDER", message })
+  const evenly = (count: number, span: number, label: string) => {
+    const n = Math.max(0, Math.floor(count || 0))
+    if (n > 0 && span / (n + 1) < 2 * g.t) {
+      warn(`${n} ${label} dividers leave compartments too narrow to assemble; they have been left out.`)
+      return []
+    }
+    return Array.from({ length: n }, (_, i) => (span * (i + 1)) / (n + 1))
+  }
+  if (crossAt && job.dividers_cross > 0) {
+    warn("A group case is divided between its books, so the cross divider count is ignored.")
+  }
+  const cross = crossAt ?? evenly(job.dividers_cross, W_int, "cross")
+  const long = evenly(job.dividers_long, D_int, "long")
+  if (!cross.length && !long.length) return undefined
+  const height = H_wall - headroom
+  if (height <= 2 * g.t) {
+    warn("The walls are too short for dividers; they have been left out.")
+    return undefined
+  }
+  // Tabs go on the odd segments only, so every slot has solid wall above and below it; an odd count of at least
+  // three keeps the column symmetric, so both ends of a divider match the same slots.
+  let segments = Math.max(3, fingerCount(height, job, g.t))
+  if (segments % 2 === 0) segments++
+  return {
+    cross,
+    long,
+    height,
+    segments,
+    halving: job.divider_halving ?? true,
+    // Cross dividers run from FRONT to BACK, long ones from LEFT to RIGHT.
+    ends: {
+      cross: [!omitted.has("FRONT"), !omitted.has("BACK")] as [boolean, boolean],
+      long: [!omitted.has("LEFT"), !omitted.has("RIGHT")] as [boolean, boolean],
+    },
+    W_int,
+    D_int,
+  }
+}
+
+type DividerLayout = NonNullable<ReturnType<typeof dividerLayout>>
+
+/**
+ * Returns the slots a wall needs for the divider tabs passing through it, in the wall's core coordinates.
+ * The divider tabs are cut to their nominal size, so each slot is the sheet thickness by one segment, plus the joint
+ * clearance on every side of the tab. Cutouts are drawn inset by half the kerf, so the slot cuts to exactly that.
+ * @param layout - The divider layout.
+ * @param ptype - The wall.
+ * @param coreH - The wall's core height, whose bottom is the floor the dividers stand on.
+ * @param job - The book job.
+ * @param g - The global settings.
+ * @returns The slot cutouts, empty for panels other than the walls.
+ */
+function dividerSlots(layout: DividerLayout, ptype: PartType, coreH: number, job: BookJob, g: Globals): Cutout[] {
+  const positions =
+    ptype === "FRONT" || ptype === "BACK" ? layout.cross : ptype === "LEFT" || ptype === "RIGHT" ? layout.long : []
+  const seg = layout.height / layout.segments
+  const top = coreH - layout.height
+  const slots: Cutout[] = []
+  for (const x of positions) {
+    for (let i = 1; i < layout.segments; i += 2) {
+      slots.push({
+        part: ptype,
+        shape: "rect",
+        x,
+        y: top + (i + 0.5) * seg,
+        w: g.t + 2 * job.joint_clear,
+        h: seg + 2 * job.joint_clear,
+      })
+    }
+  }
+  return slots
+}
+
+/**
+ * Builds the divider panels. Where cross and long dividers meet they either interlock with halving notches
+ * (cross dividers notched down from the top, long ones up from the bottom), or the long dividers are split
+ * into pieces that butt against the cross dividers, tabbed only where they reach a wall.
+ * @param layout - The divider layout.
+ * @param job - The book job.
+ * @param g - The global settings.
+ * @returns The divider panel geometries.
+ */
+function makeDividers(layout: DividerLayout, job: BookJob, g: Globals): PanelGeom[] {
+  const { cross, long, height, segments, W_int, D_int } = layout
+  const notchW = g.t + 2 * job.joint_clear
+  const halving = layout.halving && cross.length > 0 && long.length > 0
+  const end = (tabbed: boolean): EdgeParams =>
+    tabbed ? { teeth: true, role: "female", fingers: segments, jointClear: 0 } : { teeth: false, role: "female" }
+  const flat: EdgeParams = { teeth: false, role: "female" }
+  const panel = (w: number, left: boolean, right: boolean, top: EdgeParams, bottom: EdgeParams) =>
+    makeFingerJointedPanel(w, height, { top, right: end(right), bottom, left: end(left) }, {}, g, job)
+
+  const panels: PanelGeom[] = []
+  for (let i = 0; i < cross.length; i++) {
+    // The top edge runs left to right, from the FRONT end.
+    const notches = halving ? long.map((y) => ({ start: y - notchW / 2, width: notchW, depth: height / 2 })) : []
+    panels.push(panel(D_int, ...layout.ends.cross, { ...flat, notches }, flat))
+  }
+  for (let i = 0; i < long.length; i++) {
+    if (halving || !cross.length) {
+      // The bottom edge runs right to left, from the RIGHT end.
+      const notches = halving
+        ? cross.map((x) => ({ start: W_int - x - notchW / 2, width: notchW, depth: height / 2 }))
+        : []
+      panels.push(panel(W_int, ...layout.ends.long, flat, { ...flat, notches }))
+      continue
+    }
+    const bounds = [0, ...cross.flatMap((x) => [x - g.t / 2, x + g.t / 2]), W_int]
+    for (let k = 0; k < bounds.length; k += 2) {
+      const first = k === 0,
+        last = k === bounds.length - 2
+      panels.push(
+        panel(bounds[k + 1] - bounds[k], first && layout.ends.long[0], last && layout.ends.long[1], flat, flat),
+      )
+    }
+  }
+  return panels
+}
+
+/**
+ * Engraves a sliding LID's groove into a side wall, from the BACK wall's inner face out through the FRONT end.
+ * @param geom - The wall geometry, cut inside-face up.
+ * @param frontSide - Which side of the wall, as cut, is at the FRONT of the case.
+ * @param coreW - The core width of the wall.
+ * @param slide - The sliding LID layout.
+ * @returns The wall geometry with the groove on its depth-engrave layer.
+ */
+function withSlideGroove(
+  geom: PanelGeom,
+  frontSide: "left" | "right",
+  coreW: number,
+  slide: { grooveTop: number; grooveH: number; depth: number },
+): PanelGeom {
+  const { x: ox, y: oy } = geom.coreOffset
+  const x0 = frontSide === "left" ? 0 : ox,
+    x1 = frontSide === "left" ? ox + coreW : geom.width
+  const y0 = oy + slide.grooveTop,
+    y1 = y0 + slide.grooveH
+  const f = (n: number) => n.toFixed(4)
+  const d = `M ${f(x0)} ${f(y0)} H ${f(x1)} V ${f(y1)} H ${f(x0)} Z`
+  return { ...geom, depthEngraveDs: [...geom.depthEngraveDs, { d, depth: slide.depth }] }
+}
+
+/**
+ * Maps each book edge to the LID side that carries the hinge and the wall whose top edge sits beneath it.
+ * The LID core is `W_int` x `D_int`: FRONT/BACK run along its top/bottom sides, LEFT/RIGHT along its left/right sides.
+ */
+const HINGE_EDGES: Record<EdgeName, { side: PanelSide; wall: PartType }> = {
+  HEAD: { side: "top", wall: "BACK" },
+  TAIL: { side: "bottom", wall: "FRONT" },
+  FORE: { side: "right", wall: "RIGHT" },
+  SPINE: { side: "left", wall: "LEFT" },
+}
+
+/**
+ * Lays out a knuckle hinge. A laser can only cut holes straight through the sheet, so a pin running along the
+ * hinge line cannot pass through knuckles in the LID or wall themselves. Instead each knuckle is a HINGE_BARREL
+ * part standing on edge across the hinge line, pin hole on the hinge axis just outside the top outer corner of
+ * the case: the even barrels (both end ones among them) are glued into slots in the hinge wall, the odd ones
+ * into slots in the LID, and the pin is pushed through all of them.
+ * @param job - The book job.
+ * @param g - The global settings.
+ * @param length - The length of the hinge edge.
+ * @param room - How far the LID and hinge wall reach in from the hinge edge, for the slots.
+ * @param warnings - Collects an adjusted knuckle count, or a hinge that cannot be built.
+ * @returns The barrels' centers along the hinge edge and the size of their tabs, or `undefined` when they do not fit.
+ */
+function knuckleHingeLayout(job: BookJob, g: Globals, length: number, room: number, warnings: GenerationWarning[]) {
+  const warn = (message: string) =>
+    warnings.push({ jobId: job.id, bookName: job.name, partType: "HINGE_BARREL", message })
+  // Barrels alternate wall, LID, wall, ... and finish on the wall, so the count is odd and at least 3.
+  const requested = Math.round(job.knuckle_count)
+  const count = Math.max(3, requested | 1)
+  if (count !== requested) {
+    warn(`Knuckle hinges need an odd count of at least 3; using ${count} instead of ${requested}.`)
+  }
+  const pitch = length / count
+  // The slots keep a sheet's width of material on both sides: to the hinge edge, and to the far edge of the wall
+  // or LID. Tabs are two sheets long where there is room, and no shorter than one.
+  const web = g.t,
+    tab = Math.min(2 * g.t, room - 2 * web)
+  if (tab < g.t) {
+    warn("The LID and hinge wall are too small to slot the hinge barrels into; the LID cannot take a pin.")
+    return undefined
+  }
+  if (pitch < 2 * g.t + 2 * job.joint_clear) {
+    warn(
+      `${count} knuckles leave no room between barrels on the ${length.toFixed(3)}" hinge edge; the LID cannot take a pin.`,
+    )
+    return undefined
+  }
+  return {
+    centers: Array.from({ length: count }, (_, i) => (i + 0.5) * pitch),
+    pinR: (job.pin_diam + job.pin_clear) / 2,
+    web, // Material left between a slot and the hinge edge
+    tab, // How far a barrel's tab reaches into the panel it is glued into
+  }
+}
+
+type KnuckleLayout = NonNullable<ReturnType<typeof knuckleHingeLayout>>
+
+/**
+ * Returns the slots the LID or hinge wall needs for its barrels' tabs, in the panel's core coordinates.
+ * The LID's slots run in from its hinge edge and the wall's hang below its top edge, each set in by `web` and
+ * sized to the tab plus the joint clearance all round. The barrels are spaced symmetrically, so the slots line up
+ * whichever way the two panels' edges run.
+ * @param layout - The knuckle hinge layout.
+ * @param ptype - The panel.
+ * @param hinge - The hinge edge: the LID's side along it and the wall under it.
+ * @param core - The panel's core width and height.
+ * @param job - The book job.
+ * @param g - The global settings.
+ * @returns The slot cutouts, empty for panels other than the LID and hinge wall.
+ */
+function knuckleSlots(
+  layout: KnuckleLayout,
+  ptype: PartType,
+  hinge: { side: PanelSide; wall: PartType },
+  core: [number, number],
+  job: BookJob,
+  g: Globals,
+): Cutout[] {
+  if (ptype !== "LID" && ptype !== hinge.wall) return []
+  const onLid = ptype === "LID"
+  const side = onLid ? hinge.side : "top"
+  const [w, h] = core
+  const inset = layout.web + layout.tab / 2
+  const thick = g.t + 2 * job.joint_clear,
+    long = layout.tab + 2 * job.joint_clear
+  return layout.centers
+    .filter((_, i) => i % 2 === (onLid ? 1 : 0))
+    .map((a) => {
+      const across = side === "top" || side === "bottom"
+      return {
+        part: ptype,
+        shape: "rect",
+        x: across ? a : side === "left" ? inset : w - inset,
+        y: across ? (side === "top" ? inset : h - inset) : a,
+        w: across ? thick : long,
+        h: across ? long : thick,
+      }
+    })
+}
+
+/**
+ * Builds the HINGE_BARREL parts, drawn as seen along the hinge axis with the case to the left and the LID on top.
+ * Each is a disc around the pin hole, one sheet wider than the hole all round:
+ * - a wall barrel hangs down the outer face of the wall and hooks a tab in through the wall's slot;
+ * - a LID barrel lies along the top of the LID and drops a tab into the LID's slot.
+ * The axis sits one barrel radius out from the wall and level with the top of the LID, so as the LID opens every
+ * part of it stays at least a barrel radius from the pin and swings clear of the wall barrels.
+ * @param layout - The knuckle hinge layout.
+ * @param g - The global settings.
+ * @returns The barrel geometries, in order along the hinge edge.
+ */
+function makeHingeBarrels(layout: KnuckleLayout, g: Globals): PanelGeom[] {
+  const { t } = g
+  const k = g.kerf / 2
+  const R = layout.pinR + t
+  const { web, tab } = layout
+  // In each drawing the pin is at the origin, the wall's outer face at x = -R and the top of the LID at y = 0.
+  const arc = (from: number, to: number): Point[] => {
+    const steps = Math.ceil(Math.abs(to - from) / (Math.PI / 12))
+    return Array.from({ length: steps + 1 }, (_, i) => {
+      const a = from + ((to - from) * i) / steps
+      return { x: R * Math.cos(a), y: R * Math.sin(a) }
+    })
+  }
+  const slotEnd = -R - t - web
+  const lidOutline: Point[] = [
+    { x: slotEnd - tab, y: -R },
+    ...arc(-Math.PI / 2, Math.PI),
+    { x: slotEnd, y: 0 },
+    { x: slotEnd, y: t },
+    { x: slotEnd - tab, y: t },
+  ]
+  const foot = t + web + tab
+  const wallOutline: Point[] = [
+    ...arc(Math.PI, 2 * Math.PI),
+    { x: R, y: foot },
+    { x: -R - t, y: foot },
+    { x: -R - t, y: t + web },
+    { x: -R, y: t + web },
+  ]
+
+  const barrel = (outline: Point[]): PanelGeom => {
+    const kerfed = offsetPolygon(outline, k)
+    const minX = Math.min(...kerfed.map((p) => p.x)),
+      minY = Math.min(...kerfed.map((p) => p.y))
+    const width = Math.max(...kerfed.map((p) => p.x)) - minX,
+      height = Math.max(...kerfed.map((p) => p.y)) - minY
+    const contourPoints = kerfed.map((p) => ({ x: p.x - minX, y: p.y - minY }))
+    const pin = { cx: -minX, cy: -minY, r: layout.pinR + k }
+    return {
+      outerCutD: "M " + contourPoints.map((p) => `${p.x.toFixed(4)} ${p.y.toFixed(4)}`).join(" L ") + " Z",
+      innerCutDs: [circlePath(pin, -k)],
+      scoreDs: [],
+      depthEngraveDs: [],
+      patternDs: [],
+      holes: [pin],
+      width,
+      height,
+      labelCenter: { x: width / 2, y: height / 2 },
+      coreOffset: { x: 0, y: 0 },
+      valleyPts: [],
+      contourPoints,
+    }
+  }
+  return layout.centers.map((_, i) => barrel(i % 2 === 0 ? wallOutline : lidOutline))
+}
+
+/**
+ * For each panel edge, the edge it mates with in the assembled case. Positions along an edge are measured from the
+ * panel's left end (top/bottom edges) or top end (left/right edges), with walls seen from outside the case, top edge up;
+ * `reversed` marks pairs whose positions run in opposite directions.
+ */
+const MATING_EDGES: Partial<
+  Record<PartType, Record<PanelSide, { part: PartType; side: PanelSide; reversed: boolean }>>
+> = {
+  BASE: {
+    top: { part: "BACK", side: "bottom", reversed: true },
+    right: { part: "RIGHT", side: "bottom", reversed: true },
+    bottom: { part: "FRONT", side: "bottom", reversed: false },
+    left: { part: "LEFT", side: "bottom", reversed: false },
+  },
+  LID: {
+    top: { part: "BACK", side: "top", reversed: true },
+    right: { part: "RIGHT", side: "top", reversed: true },
+    bottom: { part: "FRONT", side: "top", reversed: false },
+    left: { part: "LEFT", side: "top", reversed: false },
+  },
+  FRONT: {
+    top: { part: "LID", side: "bottom", reversed: false },
+    right: { part: "RIGHT", side: "left", reversed: false },
+    bottom: { part: "BASE", side: "bottom", reversed: false },
+    left: { part: "LEFT", side: "right", reversed: false },
+  },
+  BACK: {
+    top: { part: "LID", side: "top", reversed: true },
+    right: { part: "LEFT", side: "left", reversed: false },
+    bottom: { part: "BASE", side: "top", reversed: true },
+    left: { part: "RIGHT", side: "right", reversed: false },
+  },
+  LEFT: {
+    top: { part: "LID", side: "left", reversed: false },
+    right: { part: "FRONT", side: "left", reversed: false },
+    bottom: { part: "BASE", side: "left", reversed: false },
+    left: { part: "BACK", side: "right", reversed: false },
+  },
+  RIGHT: {
+    top: { part: "LID", side: "right", reversed: true },
+    right: { part: "BACK", side: "left", reversed: false },
+    bottom: { part: "BASE", side: "right", reversed: true },
+    left: { part: "FRONT", side: "right", reversed: false },
+  },
+}
+
+/**
+ * Turns the job's pad zones into `Rect`s in each panel's core coordinates, mirroring every zone onto the
+ * mating edge so both halves of the joint leave the same span flat. Each rect straddles its edge line by `t`
+ * on either side, which is all `addEdgePath` needs to match it to that edge alone.
+ * @param zones - The job's pad zones.
+ * @param cores - The core width and height of each panel.
+ * @param t - The material thickness.
+ * @returns The pad rects for each panel.
+ */
+function padsByPart(zones: PadZone[], cores: Partial<Record<PartType, [number, number]>>, t: number) {
+  const rects: Partial<Record<PartType, Rect[]>> = {}
+  const edgeLength = (part: PartType, side: PanelSide) => {
+    const [w, h] = cores[part] ?? [0, 0]
+    return side === "top" || side === "bottom" ? w : h
+  }
+  const add = (part: PartType, side: PanelSide, start: number, length: number) => {
+    const core = cores[part]
+    if (!core) return
+    const [w, h] = core
+    // Clamped to the edge, so a span can never spill around a corner onto the neighbouring edge.
+    const a = Math.max(0, start),
+      b = Math.min(start + length, edgeLength(part, side))
+    if (b <= a) return
+    const rect: Rect =
+      side === "top" || side === "bottom"
+        ? { x: a, y: (side === "top" ? 0 : h) - t, w: b - a, h: 2 * t }
+        : { x: (side === "left" ? 0 : w) - t, y: a, w: 2 * t, h: b - a }
+    ;(rects[part] ??= []).push(rect)
+  }
+  for (const zone of zones) {
+    add(zone.part, zone.side, zone.start, zone.length)
+    const mate = MATING_EDGES[zone.part]?.[zone.side]
+    if (!mate) continue
+    const start = mate.reversed ? edgeLength(mate.part, mate.side) - zone.start - zone.length : zone.start
+    add(mate.part, mate.side, start, zone.length)
+  }
+  return rects
+}
+
+/**
+ * Builds the tape guide score line along the hinge side of a panel's core, stopping short of the reserved strips.
+ * @param side - The panel side carrying the hinge.
+ * @param w - The core width of the panel.
+ * @param h - The core height of the panel.
+ * @param strip - The reserved strip length at each end of the edge.
+ * @param offset - The position of the core's origin within the normalized panel geometry.
+ * @returns The SVG path data for the score line.
+ */
+function hingeGuidePath(side: PanelSide, w: number, h: number, strip: number, offset: Point): string {
+  const inset = (strip || 0) + 0.1
+  const { x, y } = offset
+  switch (side) {
+    case "top":
+      return `M ${x + inset} ${y} L ${x + w - inset} ${y}`
+    case "bottom":
+      return `M ${x + inset} ${y + h} L ${x + w - inset} ${y + h}`
+    case "left":
+      return `M ${x} ${y + inset} L ${x} ${y + h - inset}`
+    case "right":
+      return `M ${x + w} ${y + inset} L ${x + w} ${y + h - inset}`
+  }
+}
+
+/**
+ * Generates the slits of a living hinge: staggered rows of single-line cuts parallel to the hinge side.
+ * The flex band starts clear of the finger joint on the hinge side and is as wide as the arc a 90° bend
+ * needs around a radius of `2 * t`, so the strip along the edge stays glued to the wall while the rest of the LID swings.
+ * Slit spacing and bridge width scale with `t` but never drop below a few kerf widths, so adjacent cuts cannot merge.
+ * @param side - The panel side carrying the hinge.
+ * @param w - The core width of the panel.
+ * @param h - The core height of the panel.
+ * @param offset - The position of the core's origin within the normalized panel geometry.
+ * @param g - The global settings.
+ * @returns The SVG path data for each slit.
+ */
+function livingHingeSlits(side: PanelSide, w: number, h: number, offset: Point, g: Globals): string[] {
+  const { t, kerf } = g
+  const bendRadius = 2 * t
+  const flexWidth = (Math.PI / 2) * (bendRadius + t / 2)
+  const rowPitch = Math.max(t / 2, 4 * kerf)
+  const bridge = Math.max(t, 10 * kerf)
+  const slitLen = Math.max(8 * t, 20 * kerf)
+  const bandStart = 2 * t
+
+  const edgeLen = side === "top" || side === "bottom" ? w : h
+  const depth = side === "top" || side === "bottom" ? h : w
+  const endMargin = Math.max(2 * t, 0.1)
+  const uMin = endMargin,
+    uMax = edgeLen - endMargin
+  const rows = Math.max(2, Math.ceil(flexWidth / rowPitch) + 1)
+
+  // (u, v) -> panel coordinates: u runs along the hinge side, v runs inward from it.
+  const toXY = (u: number, v: number): Point => {
+    switch (side) {
+      case "top":
+        return { x: offset.x + u, y: offset.y + v }
+      case "bottom":
+        return { x: offset.x + u, y: offset.y + h - v }
+      case "left":
+        return { x: offset.x + v, y: offset.y + u }
+      case "right":
+        return { x: offset.x + w - v, y: offset.y + u }
+    }
+  }
+
+  const slits: string[] = []
+  for (let row = 0; row < rows; row++) {
+    const v = bandStart + row * rowPitch
+    if (v > depth - bandStart) break
+    // Odd rows shift by half a period so every bridge is flanked by slits on the neighbouring rows.
+    const period = slitLen + bridge
+    let u = row % 2 === 0 ? uMin : uMin - period / 2
+    for (; u < uMax; u += period) {
+      const a = Math.max(uMin, u),
+        b = Math.min(uMax, u + slitLen)
+      if (b - a < bridge) continue
+      const p1 = toXY(a, v),
+        p2 = toXY(b, v)
+      slits.push(`M ${p1.x.toFixed(4)} ${p1.y.toFixed(4)} L ${p2.x.toFixed(4)} ${p2.y.toFixed(4)}`)
+    }
+  }
+  return slits
+}
+
+type PanelGeom = ReturnType<typeof makeFingerJointedPanel>
+
+/**
+ * Works out how many finger segments an edge gets: from an explicit count, or by dividing the edge into
+ * tabs of roughly `tab_w` (default `max(4t, tab_w_rule)`), then fixed to the parity `symmetric_ends` asks for.
+ * @param length - The edge length.
+ * @param job - The parent book job.
+ * @param t - The material thickness.
+ * @param override - An optional per-edge-pair override.
+ * @returns The number of segments (tabs and gaps) along the edge.
+ */
+function fingerCount(length: number, job: BookJob, t: number, override?: TabOverride): number {
+  let n = override?.count
+    ? Math.round(override.count)
+    : Math.round(length / (override?.tab_w ? override.tab_w : Math.max(4 * t, job.tab_w_rule)))
+  if (job.symmetric_ends) {
+    if (n % 2 === 0) n++
+  } else {
+    if (n % 2 !== 0) n++
+  }
+  if (n < 1) n = 1
+  return n
+}
+
+/**
+ * Resolves one finger count per family of mating edges, so that e.g. the BASE's front edge and the FRONT
+ * wall's bottom edge are always divided identically. Explicit counts that had to change parity are reported.
+ * @param job - The parent book job.
+ * @param g - The global settings.
+ * @param lengths - The edge length of each family.
+ * @param warnings - Collects adjusted overrides.
+ * @returns The finger count for each edge family.
+ */
+function resolveFingerCounts(
+  job: BookJob,
+  g: Globals,
+  lengths: Record<EdgePair, number>,
+  warnings: GenerationWarning[],
+): Record<EdgePair, number> {
+  const overrides = job.tab_overrides ?? {}
+  const pairs: EdgePair[] = ["width", "depth", "height"]
+  const counts = {} as Record<EdgePair, number>
+  for (const pair of pairs) {
+    const override = overrides[pair]
+    counts[pair] = fingerCount(lengths[pair], job, g.t, override)
+    if (override?.count && counts[pair] !== Math.round(override.count)) {
+      warnings.push({
+        jobId: job.id,
+        bookName: job.name,
+        message: `${pair[0].toUpperCase()}${pair.slice(1)} edges use ${counts[pair]} finger segments instead of ${
+          override.count
+        } to keep ${job.symmetric_ends ? "symmetric" : "asymmetric"} ends.`,
+      })
+    }
+  }
+  return counts
+}
+
+/**
+ * Computes the nominal (un-nudged) magnet holes for a job's `mag_layout`, in BASE panel coordinates.
+ * @param job - The book job.
+ * @param W_int - The interior width, used by the legacy corner pattern.
+ * @param D_int - The interior depth, used by the legacy corner pattern.
+ * @param panelW - The BASE panel width.
+ * @param panelH - The BASE panel height.
+ * @param r - The nominal hole radius.
+ * @returns The magnet holes before any clearance adjustment.
+ */
+function layoutMagnets(
+  job: BookJob,
+  W_int: number,
+  D_int: number,
+  panelW: number,
+  panelH: number,
+  r: number,
+): { cx: number; cy: number; r: number }[] {
+  const layout = job.mag_layout ?? { kind: "corners" }
+  const off = job.mag_edge_offset
+  switch (layout.kind) {
+    case "edge": {
+      const n = Math.max(0, Math.round(layout.count))
+      const along = layout.side === "top" || layout.side === "bottom" ? panelW : panelH
+      const positions = Array.from({ length: n }, (_, i) =>
+        n === 1 ? along / 2 : off + (i * (along - 2 * off)) / (n - 1),
+      )
+      return positions.map((u) => {
+        switch (layout.side) {
+          case "top":
+            return { cx: u, cy: off, r }
+          case "bottom":
+            return { cx: u, cy: panelH - off, r }
+          case "left":
+            return { cx: off, cy: u, r }
+          case "right":
+            return { cx: panelW - off, cy: u, r }
+        }
+      })
+    }
+    case "centered_pair": {
+      const half = layout.spacing / 2
+      return layout.axis === "x"
+        ? [
+            { cx: panelW / 2 - half, cy: panelH / 2, r },
+            { cx: panelW / 2 + half, cy: panelH / 2, r },
+          ]
+        : [
+            { cx: panelW / 2, cy: panelH / 2 - half, r },
+            { cx: panelW / 2, cy: panelH / 2 + half, r },
+          ]
+    }
+    case "custom":
+      return layout.points.map((p) => ({ cx: p.x, cy: p.y, r }))
+    case "corners": {
+      const holes: { cx: number; cy: number; r: number }[] = []
+      if (job.mag_count >= 2) {
+        holes.push({ cx: off, cy: off, r }, { cx: W_int - off, cy: off, r })
+      }
+      if (job.mag_count === 4) {
+        holes.push({ cx: off, cy: D_int - off, r }, { cx: W_int - off, cy: D_int - off, r })
+      }
+      return holes
+    }
+  }
+}
+
+/**
+ * Adds magnet holes to a panel, either as through-cuts or as blind pockets on the depth-engrave layer.
+ * @param geom - The panel geometry.
+ * @param holes - The magnet holes, in the panel's normalized coordinates.
+ * @param pocket - Whether to engrave pockets instead of cutting through.
+ * @param job - The parent book job, for the pocket depth.
+ * @param g - The global settings.
+ * @returns The panel geometry with the magnet cuts and holes attached.
+ */
+function withMagnets(
+  geom: PanelGeom,
+  holes: { cx: number; cy: number; r: number }[],
+  pocket: boolean,
+  job: BookJob,
+  g: Globals,
+): PanelGeom & { magnetHoles: { cx: number; cy: number; r: number }[] } {
+  const innerCutDs = [...geom.innerCutDs]
+  const depthEngraveDs = [...geom.depthEngraveDs]
+  for (const h of holes) {
+    const d = circlePath(h, -g.kerf / 2)
+    if (pocket) depthEngraveDs.push({ d, depth: job.mag_thick })
+    else innerCutDs.push(d)
+  }
+  return { ...geom, innerCutDs, depthEngraveDs, magnetHoles: holes }
+}
+
+/**
+ * Positions a BASE magnet and its LID counterpart so they line up when the case is closed.
+ * Both are resolved in core coordinates: the candidate is alternately run through `enforceHoleClearances`
+ * against the BASE and the (optionally mirrored) LID, and kept clear of the tape band along the hinge side,
+ * until neither panel moves it any further.
+ * @param hole - The nominal BASE hole, in the BASE's normalized coordinates.
+ * @param base - The BASE panel geometry.
+ * @param lid - The LID panel geometry.
+ * @param mirror - Maps core coordinates between the BASE and the LID as cut (an involution).
+ * @param hingeBand - The hinge side and the width of the tape band magnets must stay out of.
+ * @returns The BASE and LID holes, each in its own panel's normalized coordinates.
+ */
+function alignMagnetPair(
+  hole: { cx: number; cy: number; r: number },
+  base: PanelGeom,
+  lid: PanelGeom,
+  mirror: (p: Point) => Point,
+  hingeBand: { side: PanelSide; band: number; w: number; h: number; t: number },
+): { base: { cx: number; cy: number; r: number }; lid: { cx: number; cy: number; r: number } } {
+  const { r } = hole
+  const { side, band, w, h, t } = hingeBand
+  const clearBand = (p: Point): Point => {
+    if (!band) return p
+    const min = band + r
+    switch (side) {
+      case "top":
+        return { x: p.x, y: Math.max(p.y, min) }
+      case "bottom":
+        return { x: p.x, y: Math.min(p.y, h - min) }
+      case "left":
+        return { x: Math.max(p.x, min), y: p.y }
+      case "right":
+        return { x: Math.min(p.x, w - min), y: p.y }
+    }
+  }
+  const enforceOn = (geom: PanelGeom, p: Point): Point => {
+    const { x, y } = geom.coreOffset
+    const out = enforceHoleClearances({ cx: p.x + x, cy: p.y + y, r }, geom.width, geom.height, geom.valleyPts, t)
+    return { x: out.cx - x, y: out.cy - y }
+  }
+
+  let core: Point = { x: hole.cx - base.coreOffset.x, y: hole.cy - base.coreOffset.y }
+  for (let i = 0; i < 4; i++) {
+    const next = mirror(enforceOn(lid, mirror(clearBand(enforceOn(base, core)))))
+    const moved = Math.hypot(next.x - core.x, next.y - core.y)
+    core = next
+    if (moved < 1e-6) break
+  }
+  const lidCore = mirror(core)
+  return {
+    base: { cx: core.x + base.coreOffset.x, cy: core.y + base.coreOffset.y, r },
+    lid: { cx: lidCore.x + lid.coreOffset.x, cy: lidCore.y + lid.coreOffset.y, r },
+  }
+}
+
 function deriveInner(job: BookJob) {
   const W_int = job.W_ext - 2 * job.clear_side
   const D_int = job.D_ext - 2 * job.clear_depth
-  const H_wall = job.h_visible + job.raise_gap
+  // The tray only rises to the glow band; enclosures wrap the whole (raised) book plus some headroom.
+  const H_wall =
+    (job.case_type ?? "tray") === "tray"
+      ? job.h_visible + job.raise_gap
+      : job.H_ext + job.raise_gap + (job.clear_top ?? 0)
   return { W_int, D_int, H_wall }
 }
 
@@ -259,7 +1670,8 @@ function deriveInner(job: BookJob) {
  * @param outerW - The core width of the panel (inside the joints).
  * @param outerH - The core height of the panel (inside the joints).
  * @param edges - An object defining the joint properties for each of the four edges.
- * @param features - Additional features like magnet holes (not implemented at this level).
+ * @param features - Additional features, in core coordinates: cutouts to cut through the panel, and pads along
+ *   which edges stay flat.
  * @param g - The global settings.
  * @param job - The parent book job, for parameters like joint clearance.
  * @returns An object containing all geometric data for the panel.
@@ -267,24 +1679,27 @@ function deriveInner(job: BookJob) {
 function makeFingerJointedPanel(
   outerW: number,
   outerH: number,
-  edges: { top: EdgeParams; right: EdgeParams; bottom: EdgeParams; left: EdgeParams },
-  features: { holes?: { cx: number; cy: number; r: number }[]; pads?: Rect[] },
+  edges: PanelEdges,
+  features: { cutouts?: Cutout[]; pads?: Rect[] },
   g: Globals,
   job: BookJob,
 ) {
   const k = g.kerf / 2
-  const contour: (Point & { nx: number; ny: number })[] = []
+  const contour: Point[] = []
   const valleyCollector: Point[] = []
   let currentPos: Point = { x: 0, y: 0 }
   if (edges.left.teeth && edges.left.role === "male") currentPos.x = g.t
   if (edges.top.teeth && edges.top.role === "male") currentPos.y = g.t
+  const coreOrigin = { ...currentPos }
+  // Pads arrive in core coordinates; the edge walk below works in raw coordinates.
+  const pads = features.pads?.map((r) => ({ ...r, x: r.x + coreOrigin.x, y: r.y + coreOrigin.y }))
 
   currentPos = addEdgePath({
     points: contour,
     currentPos,
     length: outerW,
     edgeParams: edges.top,
-    pads: features.pads,
+    pads,
     axis: "x",
     direction: 1,
     normal: { x: 0, y: -1 },
@@ -297,7 +1712,7 @@ function makeFingerJointedPanel(
     currentPos,
     length: outerH,
     edgeParams: edges.right,
-    pads: features.pads,
+    pads,
     axis: "y",
     direction: 1,
     normal: { x: 1, y: 0 },
@@ -310,7 +1725,7 @@ function makeFingerJointedPanel(
     currentPos,
     length: outerW,
     edgeParams: edges.bottom,
-    pads: features.pads,
+    pads,
     axis: "x",
     direction: -1,
     normal: { x: 0, y: 1 },
@@ -323,7 +1738,7 @@ function makeFingerJointedPanel(
     currentPos,
     length: outerH,
     edgeParams: edges.left,
-    pads: features.pads,
+    pads,
     axis: "y",
     direction: -1,
     normal: { x: -1, y: 0 },
@@ -332,39 +1747,49 @@ function makeFingerJointedPanel(
     valleyCollector,
   })
 
+  // Grow the finished contour by half the kerf so the laser's cut lands on the designed edge at every vertex.
+  const kerfed = offsetPolygon(contour, k)
   let minX = Number.POSITIVE_INFINITY,
     minY = Number.POSITIVE_INFINITY,
     maxX = Number.NEGATIVE_INFINITY,
     maxY = Number.NEGATIVE_INFINITY
-  const kerfed = contour.map((p) => {
-    const x = p.x + k * p.nx,
-      y = p.y + k * p.ny
+  for (const { x, y } of kerfed) {
     minX = Math.min(minX, x)
     minY = Math.min(minY, y)
     maxX = Math.max(maxX, x)
     maxY = Math.max(maxY, y)
-    return { x, y }
-  })
+  }
   const width = maxX - minX,
     height = maxY - minY
   const normalizedPoints = kerfed.map((p) => ({ x: p.x - minX, y: p.y - minY }))
   const outerCutD = "M " + normalizedPoints.map((p) => `${p.x.toFixed(4)} ${p.y.toFixed(4)}`).join(" L ") + " Z"
 
-  const RELIEF_R = 0.035
   const normalizedValleys = valleyCollector.map((v) => ({ x: v.x - minX, y: v.y - minY }))
-  const reliefHoles = normalizedValleys.map((v) => ({ cx: v.x, cy: v.y, r: RELIEF_R }))
-  const innerCutDs: string[] = reliefHoles.map(
-    (h) => `M ${h.cx - h.r},${h.cy} a ${h.r},${h.r} 0 1,0 ${2 * h.r},0 a ${h.r},${h.r} 0 1,0 -${2 * h.r},0`,
-  )
+  // Dog-bone and T-bone reliefs are already part of the contour; only circular reliefs are separate cuts.
+  const reliefR = (g.relief_size ?? 2 * RELIEF_R) / 2
+  const reliefHoles =
+    (g.relief_style ?? "circle") === "circle" && reliefR > 0
+      ? normalizedValleys.map((v) => ({ cx: v.x, cy: v.y, r: reliefR }))
+      : []
+  const innerCutDs: string[] = reliefHoles.map((h) => circlePath(h, -k))
+  const cutouts = (features.cutouts ?? []).map((c) => ({
+    ...c,
+    x: c.x + coreOrigin.x - minX,
+    y: c.y + coreOrigin.y - minY,
+  }))
+  innerCutDs.push(...cutouts.map((c) => cutoutPath(c, -k)))
 
   return {
     outerCutD,
     innerCutDs,
     scoreDs: [] as string[],
-    holes: reliefHoles,
+    depthEngraveDs: [] as { d: string; depth: number }[],
+    patternDs: [] as string[],
+    holes: [...reliefHoles, ...cutouts.map(cutoutBounds)],
     width,
     height,
     labelCenter: { x: width / 2, y: height / 2 },
+    coreOffset: { x: coreOrigin.x - minX, y: coreOrigin.y - minY },
     valleyPts: normalizedValleys,
     contourPoints: normalizedPoints,
   }
@@ -383,7 +1808,7 @@ function addEdgePath({
   job,
   valleyCollector,
 }: {
-  points: (Point & { nx: number; ny: number })[]
+  points: Point[]
   currentPos: Point
   length: number
   edgeParams: EdgeParams
@@ -395,39 +1820,43 @@ function addEdgePath({
   job: BookJob
   valleyCollector: Point[]
 }): Point {
-  const { teeth, reserveStrip, role } = edgeParams
-  const { t, kerf } = g
-  const jointClear = job.joint_clear
+  const { teeth, reserveStrip, notches, role } = edgeParams
+  const { t } = g
   if (!teeth) {
     const endPos = { ...currentPos }
     endPos[axis] += length * direction
-    points.push({ ...currentPos, nx: normal.x, ny: normal.y })
+    points.push({ ...currentPos })
+    // Notches are cut straight in from the edge, against its outward normal.
+    for (const notch of [...(notches ?? [])].sort((a, b) => a.start - b.start)) {
+      const a = { ...currentPos },
+        b = { ...currentPos }
+      a[axis] += notch.start * direction
+      b[axis] += (notch.start + notch.width) * direction
+      const inward = { x: -normal.x * notch.depth, y: -normal.y * notch.depth }
+      points.push(a, { x: a.x + inward.x, y: a.y + inward.y }, { x: b.x + inward.x, y: b.y + inward.y }, b)
+    }
     return endPos
   }
-  const tab_w_nom = Math.max(4 * t, job.tab_w_rule)
-  let n = Math.round(length / tab_w_nom)
-  if (job.symmetric_ends) {
-    if (n % 2 === 0) n++
-  } else {
-    if (n % 2 !== 0) n++
-  }
-  if (n < 1) n = 1
+  const n = edgeParams.fingers ?? fingerCount(length, job, t)
+  // The kerf is taken care of by offsetting the finished contour, so only the joint clearance is applied here, and
+  // only once: female teeth are narrowed, widening the slots the male tabs drop into.
   const tab_w = length / n,
-    clearance = kerf / 2 + jointClear,
+    clearance = role === "female" ? (edgeParams.jointClear ?? job.joint_clear) : 0,
     toothDepth = t,
-    p = { ...currentPos }
-  points.push({ ...p, nx: normal.x, ny: normal.y })
+    p = { ...currentPos },
+    along = axisVector(axis, direction)
+  points.push({ ...p })
   for (let i = 0; i < n; i++) {
     const start = i * tab_w,
       end = (i + 1) * tab_w,
       isTab = i % 2 === 0
     const p1 = { ...p }
-    p1[axis] += (start + (isTab && role === "male" ? -clearance : clearance)) * direction
+    p1[axis] += (start + clearance) * direction
     const p2 = { ...p1 }
     p2.x += normal.x * toothDepth
     p2.y += normal.y * toothDepth
     const p3 = { ...p }
-    p3[axis] += (end - (isTab && role === "male" ? -clearance : clearance)) * direction
+    p3[axis] += (end - clearance) * direction
     const p4 = { ...p3 }
     p4.x += normal.x * toothDepth
     p4.y += normal.y * toothDepth
@@ -437,18 +1866,30 @@ function addEdgePath({
       (reserveStrip && (start < reserveStrip || length - end < reserveStrip)) ||
       (pads &&
         pads.some((pad: Rect) => {
-          const padStart = axis === "x" ? pad.x : pad.y
-          const padEnd = axis === "x" ? pad.x + pad.w : pad.y + pad.h
-          return Math.max(start, padStart) < Math.min(end, padEnd)
+          // Compare in panel coordinates: the segment spans [a0, a1] along the edge, at `cross` across it.
+          const cross = axis === "x" ? p.y : p.x
+          const [crossStart, crossEnd] = axis === "x" ? [pad.y, pad.y + pad.h] : [pad.x, pad.x + pad.w]
+          const [padStart, padEnd] = axis === "x" ? [pad.x, pad.x + pad.w] : [pad.y, pad.y + pad.h]
+          const a0 = p[axis] + Math.min(start * direction, end * direction),
+            a1 = p[axis] + Math.max(start * direction, end * direction)
+          return crossStart < cross && cross < crossEnd && Math.max(a0, padStart) < Math.min(a1, padEnd)
         }))
     if (isReserved || (role === "female" && isTab) || (role === "male" && !isTab)) {
-      points.push({ ...p5, nx: normal.x, ny: normal.y })
+      points.push({ ...p5 })
     } else {
-      points.push({ ...p1, nx: normal.x, ny: normal.y })
-      points.push({ ...p2, nx: normal.x, ny: normal.y })
-      points.push({ ...p4, nx: normal.x, ny: normal.y })
-      points.push({ ...p3, nx: normal.x, ny: normal.y })
-      valleyCollector.push(p1, p3)
+      // A tooth that starts or ends flush with the panel corner has no inside corner there to relieve.
+      if (i === 0) points.push({ ...p1 })
+      else {
+        pushToothBase(points, p1, along, normal, "outgoing", g)
+        valleyCollector.push(p1)
+      }
+      points.push({ ...p2 })
+      points.push({ ...p4 })
+      if (i === n - 1) points.push({ ...p3 })
+      else {
+        pushToothBase(points, p3, { x: -normal.x, y: -normal.y }, along, "incoming", g)
+        valleyCollector.push(p3)
+      }
     }
   }
   const finalPos = { ...currentPos }
@@ -456,6 +1897,127 @@ function addEdgePath({
   return finalPos
 }
 
+const RELIEF_R = 0.035
+
+/**
+ * Builds the SVG path for a circular hole, offset from its nominal radius by `delta`
+ * (negative to inset a through-cut by half the kerf).
+ */
+function circlePath(h: { cx: number; cy: number; r: number }, delta: number): string {
+  const r = Math.max(0, h.r + delta)
+  return `M ${h.cx - r},${h.cy} a ${r},${r} 0 1,0 ${2 * r},0 a ${r},${r} 0 1,0 -${2 * r},0`
+}
+
+/**
+ * Builds the outline of a cutout, grown (or, with a negative `delta`, shrunk) by `delta` on every side.
+ * Rects, slots and rounded rects are all drawn as rounded rects, so the offset stays exact: the corner radius
+ * simply changes by `delta` along with the sides.
+ * @param c - The cutout, in the panel's normalized coordinates.
+ * @param delta - The offset distance.
+ * @returns The SVG path data for the outline.
+ */
+function cutoutPath(c: Cutout, delta: number): string {
+  if (c.shape === "circle") return circlePath({ cx: c.x, cy: c.y, r: c.w / 2 }, delta)
+  const w = Math.max(0, c.w + 2 * delta),
+    h = Math.max(0, c.h + 2 * delta)
+  const maxR = Math.min(w, h) / 2
+  const r = c.shape === "slot" ? maxR : c.shape === "rounded_rect" ? Math.min(maxR, Math.max(0, (c.r ?? 0) + delta)) : 0
+  const x0 = c.x - w / 2,
+    y0 = c.y - h / 2,
+    x1 = c.x + w / 2,
+    y1 = c.y + h / 2
+  const f = (n: number) => n.toFixed(4)
+  if (r <= 0) return `M ${f(x0)} ${f(y0)} L ${f(x1)} ${f(y0)} L ${f(x1)} ${f(y1)} L ${f(x0)} ${f(y1)} Z`
+  const arc = (x: number, y: number) => `A ${f(r)} ${f(r)} 0 0 1 ${f(x)} ${f(y)}`
+  return [
+    `M ${f(x0 + r)} ${f(y0)}`,
+    `L ${f(x1 - r)} ${f(y0)}`,
+    arc(x1, y0 + r),
+    `L ${f(x1)} ${f(y1 - r)}`,
+    arc(x1 - r, y1),
+    `L ${f(x0 + r)} ${f(y1)}`,
+    arc(x0, y1 - r),
+    `L ${f(x0)} ${f(y0 + r)}`,
+    arc(x0 + r, y0),
+    "Z",
+  ].join(" ")
+}
+
+/**
+ * Returns a circle enclosing a cutout, which is how non-circular cutouts are recorded in `Part.holes`.
+ */
+function cutoutBounds(c: Cutout): { cx: number; cy: number; r: number } {
+  return { cx: c.x, cy: c.y, r: c.shape === "circle" ? c.w / 2 : Math.hypot(c.w, c.h) / 2 }
+}
+
+const axisVector = (axis: "x" | "y", direction: 1 | -1): Point =>
+  axis === "x" ? { x: direction, y: 0 } : { x: 0, y: direction }
+
+/**
+ * Emits the concave corner where a tooth flank meets the panel edge. For dog-bone and T-bone reliefs the
+ * corner is replaced by a semicircle of the router tool's radius carved into the material, so the mating
+ * tooth's square corner can seat fully; otherwise the plain corner point is emitted.
+ * - Dog-bone: the overcut runs along the corner's bisector; the semicircle spans `√2·r` back along both segments.
+ * - T-bone: the overcut runs perpendicular to the tooth flank, into the tooth; the semicircle spans `2r` of the flank.
+ * @param points - The contour being built.
+ * @param p - The corner point.
+ * @param incoming - Unit direction of the segment arriving at `p`.
+ * @param outgoing - Unit direction of the segment leaving `p`.
+ * @param flank - Which of the two segments is the tooth flank.
+ * @param g - The global settings, for the relief style and tool size.
+ */
+function pushToothBase(
+  points: Point[],
+  p: Point,
+  incoming: Point,
+  outgoing: Point,
+  flank: "incoming" | "outgoing",
+  g: Globals,
+) {
+  const r = (g.relief_size ?? 0) / 2
+  const style = g.relief_style ?? "circle"
+  if ((style !== "dogbone" && style !== "tbone") || r <= 0) {
+    points.push({ ...p })
+    return
+  }
+
+  let from: Point, to: Point, center: Point, via: Point
+  if (style === "dogbone") {
+    const s = Math.SQRT2 * r
+    from = { x: p.x - incoming.x * s, y: p.y - incoming.y * s }
+    to = { x: p.x + outgoing.x * s, y: p.y + outgoing.y * s }
+    center = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 }
+    via = p
+  } else if (flank === "outgoing") {
+    from = p
+    to = { x: p.x + outgoing.x * 2 * r, y: p.y + outgoing.y * 2 * r }
+    center = { x: p.x + outgoing.x * r, y: p.y + outgoing.y * r }
+    via = { x: center.x + incoming.x * r, y: center.y + incoming.y * r }
+  } else {
+    from = { x: p.x - incoming.x * 2 * r, y: p.y - incoming.y * 2 * r }
+    to = p
+    center = { x: p.x - incoming.x * r, y: p.y - incoming.y * r }
+    via = { x: center.x - outgoing.x * r, y: center.y - outgoing.y * r }
+  }
+
+  // Sweep from `from` to `to` in whichever direction passes through `via`.
+  const TAU = 2 * Math.PI
+  const angleOf = (q: Point) => Math.atan2(q.y - center.y, q.x - center.x)
+  const a0 = angleOf(from)
+  const ccw = (((angleOf(to) - a0) % TAU) + TAU) % TAU
+  const viaSweep = (((angleOf(via) - a0) % TAU) + TAU) % TAU
+  const sweep = viaSweep < ccw ? ccw : ccw - TAU
+  const SEGMENTS = 8
+
+  points.push({ ...from })
+  for (let i = 1; i < SEGMENTS; i++) {
+    const a = a0 + (sweep * i) / SEGMENTS
+    const q = { x: center.x + r * Math.cos(a), y: center.y + r * Math.sin(a) }
+    points.push(q)
+  }
+  points.push({ ...to })
+}
+
 function enforceHoleClearances(
   hole: { cx: number; cy: number; r: number },
   panelW: number,
@@ -0,0 +1,107 @@
+/**
+ * @file Polygon utilities shared by the part generators.
+ * The main job here is kerf compensation: offsetting a closed contour by a fixed distance so that,
+ * once the laser removes its kerf, the finished edge lands exactly on the designed geometry.
+ */
+
+import type { Point } from "./types"
+
+const EPS = 1e-9
+
+/**
+ * Offsets a closed polygon by `delta`, with positive values growing it and negative values shrinking it,
+ * regardless of the polygon's winding. Each edge is moved along its own normal and neighbouring edges are
+ * re-joined at their intersection (a miter), so corners stay sharp and every vertex is compensated by both
+ * of the edges that meet there.
+ * Convex corners sharper than `miterLimit` allows are squared off instead: the two offset edges are each
+ * extended by `|delta|` and joined with a short flat.
+ * @param points - The polygon's vertices, without the closing point repeated.
+ * @param delta - The offset distance.
+ * @param join - The join to use at convex corners: "miter" (with the square fallback) or always "square".
+ * @param miterLimit - The longest miter allowed, as a multiple of `|delta|`.
+ * @returns The offset polygon's vertices.
+ */
+export function offsetPolygon(
+  points: Point[],
+  delta: number,
+  join: "miter" | "square" = "miter",
+  miterLimit = 2,
+): Point[] {
+  const pts = cleanPolygon(points)
+  if (pts.length < 3 || Math.abs(delta) < EPS) return pts.map((p) => ({ ...p }))
+
+  // With a positive signed area, the right-hand normal of every edge points out of the polygon.
+  const sign = signedArea(pts) > 0 ? 1 : -1
+  const n = pts.length
+  const dirs: Point[] = []
+  const normals: Point[] = []
+  for (let i = 0; i < n; i++) {
+    const a = pts[i],
+      b = pts[(i + 1) % n]
+    const len = Math.hypot(b.x - a.x, b.y - a.y)
+    const d = { x: (b.x - a.x) / len, y: (b.y - a.y) / len }
+    dirs.push(d)
+    normals.push({ x: d.y * sign, y: -d.x * sign })
+  }
+
+  const out: Point[] = []
+  for (let i = 0; i < n; i++) {
+    const p = pts[i]
+    const n1 = normals[(i - 1 + n) % n],
+      n2 = normals[i]
+    const d1 = dirs[(i - 1 + n) % n],
+      d2 = dirs[i]
+    const cosTheta = n1.x * n2.x + n1.y * n2.y
+    // Normalized to counter-clockwise winding, a left turn is a convex vertex. Growing the polygon stretches
+    // its convex vertices; shrinking it stretches its concave ones.
+    const turn = (d1.x * d2.y - d1.y * d2.x) * sign
+    const convex = delta > 0 ? turn > 0 : turn < 0
+    const miterRatio = Math.sqrt(2 / (1 + cosTheta))
+
+    if (convex && (join === "square" || miterRatio > miterLimit)) {
+      const s = Math.abs(delta)
+      out.push({ x: p.x + n1.x * delta + d1.x * s, y: p.y + n1.y * delta + d1.y * s })
+      out.push({ x: p.x + n2.x * delta - d2.x * s, y: p.y + n2.y * delta - d2.y * s })
+    } else {
+      const m = delta / (1 + cosTheta)
+      out.push({ x: p.x + (n1.x + n2.x) * m, y: p.y + (n1.y + n2.y) * m })
+    }
+  }
+  return out
+}
+
+/**
+ * Returns the signed area of a polygon (positive for counter-clockwise winding in a y-up frame).
+ */
+export function signedArea(points: Point[]): number {
+  let a = 0
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i],
+      q = points[(i + 1) % points.length]
+    a += p.x * q.y - q.x * p.y
+  }
+  return a / 2
+}
+
+/**
+ * Removes repeated vertices, vertices lying on a straight run, and the tips of zero-width spikes
+ * (where the outline doubles back on itself), all of which would otherwise produce degenerate joins.
+ */
+function cleanPolygon(points: Point[]): Point[] {
+  const pts = points.map((p) => ({ ...p }))
+  // A zero cross product covers all three cases. Vertices are removed one at a time against their current
+  // neighbours, since each removal can expose another degenerate vertex.
+  for (let i = 0; pts.length >= 3 && i < pts.length;) {
+    const a = pts[(i - 1 + pts.length) % pts.length],
+      p = pts[i],
+      b = pts[(i + 1) % pts.length]
+    const cross = (p.x - a.x) * (b.y - p.y) - (p.y - a.y) * (b.x - p.x)
+    if (Math.abs(cross) <= EPS) {
+      pts.splice(i, 1)
+      i = Math.max(0, i - 1)
+    } else {
+      i++
+    }
+  }
+  return pts
+}
@@ -0,0 +1,222 @@
+/**
+ * @file True-shape nesting on a raster.
+ * Each part's outline is rasterized onto a grid of square cells, conservatively, so every cell the outline
+ * touches counts as used. Placed parts are additionally grown by `part_gap` (rounded up to whole cells), and a
+ * new part fits wherever its cells miss every used cell. Because only the cells the outline really covers are
+ * used, the teeth of neighbouring panels can slide into each other's finger gaps.
+ */
+
+import type { Part, Point } from "./types"
+
+/** Covered cells of one raster row, as inclusive `[first, last]` column ranges. */
+type RowRuns = [number, number][]
+
+type Mask = { rows: RowRuns[]; w: number; h: number; rotated: boolean }
+
+const EPS = 1e-6
+
+/**
+ * Packs as many parts as possible onto a single sheet by their true outlines. Parts go in the order given, each
+ * at the position (and rotation) that keeps its bottom edge highest on the sheet, then furthest left.
+ * @param parts - The list of parts to attempt to pack.
+ * @param w - The packable width of the sheet.
+ * @param h - The packable height of the sheet.
+ * @param orientations - The rotations to try for a part (`true` for turned 90 degrees).
+ * @param gap - The minimum required distance between parts.
+ * @param cell - The raster cell size; smaller cells nest tighter but take longer.
+ * @returns An object containing the list of `placed` parts and `remaining` parts that didn't fit.
+ */
+export function packSheetShapes(
+  parts: Part[],
+  w: number,
+  h: number,
+  orientations: (part: Part) => boolean[],
+  gap: number,
+  cell: number,
+) {
+  const placed: { part: Part; x: number; y: number; rotated: boolean }[] = []
+  const remaining: Part[] = []
+  const grid = new OccupancyGrid(Math.floor(w / cell + EPS), Math.floor(h / cell + EPS))
+  const grow = Math.ceil(gap / cell - EPS)
+
+  for (const part of parts) {
+    const masks = orientations(part).map((rotated) => maskFor(part, rotated, cell))
+
+    let best: { mask: Mask; col: number; row: number } | null = null
+    for (const mask of masks) {
+      const at = grid.firstFit(mask, w, h, cell)
+      if (!at) continue
+      const bottom = at.row * cell + mask.h
+      if (
+        !best ||
+        bottom < best.row * cell + best.mask.h - EPS ||
+        (Math.abs(bottom - (best.row * cell + best.mask.h)) <= EPS && at.col < best.col)
+      ) {
+        best = { mask, ...at }
+      }
+    }
+    if (!best) {
+      remaining.push(part)
+      continue
+    }
+
+    grid.occupy(best.mask, best.col, best.row, grow)
+    placed.push({ part, x: best.col * cell, y: best.row * cell, rotated: best.mask.rotated })
+  }
+
+  return { placed, remaining }
+}
+
+// Masks only depend on the part, so repeated packing runs over the same parts (as in `packBest`) reuse them.
+const maskCache = new WeakMap<Part, Map<string, Mask>>()
+
+function maskFor(part: Part, rotated: boolean, cell: number): Mask {
+  let masks = maskCache.get(part)
+  if (!masks) maskCache.set(part, (masks = new Map()))
+  const key = `${rotated}:${cell}`
+  let mask = masks.get(key)
+  if (!mask) masks.set(key, (mask = rasterize(part, rotated, cell)))
+  return mask
+}
+
+/**
+ * Rasterizes a part's outline, in the orientation the renderer will place it: a rotated part is turned a quarter
+ * turn clockwise, so its point `(x, y)` lands at `(h - y, x)`.
+ * A cell is covered when an outline edge passes through it, or when its center is inside the outline; together
+ * these catch every cell the part overlaps at all.
+ * @param part - The part.
+ * @param rotated - Whether to rasterize the part rotated.
+ * @param cell - The raster cell size.
+ * @returns The part's mask.
+ */
+function rasterize(part: Part, rotated: boolean, cell: number): Mask {
+  const pts: Point[] = part.contourPoints.map((p) => (rotated ? { x: part.h - p.y, y: p.x } : p))
+  const w = rotated ? part.h : part.w,
+    h = rotated ? part.w : part.h
+  const nRows = Math.max(1, Math.ceil(h / cell - EPS)),
+    nCols = Math.max(1, Math.ceil(w / cell - EPS))
+  const covered = Array.from({ length: nRows }, () => new Uint8Array(nCols))
+  const clampCol = (x: number) => Math.min(nCols - 1, Math.max(0, Math.floor(x / cell)))
+
+  for (let i = 0; i < pts.length; i++) {
+    const a = pts[i],
+      b = pts[(i + 1) % pts.length]
+    const r0 = Math.max(0, Math.floor(Math.min(a.y, b.y) / cell)),
+      r1 = Math.min(nRows - 1, Math.floor(Math.max(a.y, b.y) / cell))
+    for (let r = r0; r <= r1; r++) {
+      // Clip the edge to this row's band and mark every cell it crosses.
+      const y0 = Math.max(r * cell, Math.min(a.y, b.y)),
+        y1 = Math.min((r + 1) * cell, Math.max(a.y, b.y))
+      const xAt = (y: number) => (Math.abs(b.y - a.y) < EPS ? a.x : a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x))
+      const xs = Math.abs(b.y - a.y) < EPS ? [a.x, b.x] : [xAt(y0), xAt(y1)]
+      for (let c = clampCol(Math.min(...xs)); c <= clampCol(Math.max(...xs)); c++) covered[r][c] = 1
+    }
+  }
+
+  for (let r = 0; r < nRows; r++) {
+    const yc = (r + 0.5) * cell
+    const crossings: number[] = []
+    for (let i = 0; i < pts.length; i++) {
+      const a = pts[i],
+        b = pts[(i + 1) % pts.length]
+      if (a.y <= yc !== b.y <= yc) crossings.push(a.x + ((yc - a.y) / (b.y - a.y)) * (b.x - a.x))
+    }
+    crossings.sort((p, q) => p - q)
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      const c0 = Math.max(0, Math.ceil(crossings[k] / cell - 0.5)),
+        c1 = Math.min(nCols - 1, Math.floor(crossings[k + 1] / cell - 0.5))
+      for (let c = c0; c <= c1; c++) covered[r][c] = 1
+    }
+  }
+
+  const rows = covered.map((row) => {
+    const runs: RowRuns = []
+    for (let c = 0; c < row.length; c++) {
+      if (!row[c]) continue
+      if (runs.length && runs[runs.length - 1][1] === c - 1) runs[runs.length - 1][1] = c
+      else runs.push([c, c])
+    }
+    return runs
+  })
+  return { rows, w, h, rotated }
+}
+
+/**
+ * The sheet's used cells, with a running count per row so any span can be tested in constant time.
+ */
+class OccupancyGrid {
+  private used: Uint8Array[]
+  private prefix: Int32Array[]
+
+  constructor(
+    readonly cols: number,
+    readonly rows: number,
+  ) {
+    this.used = Array.from({ length: rows }, () => new Uint8Array(cols))
+    this.prefix = Array.from({ length: rows }, () => new Int32Array(cols + 1))
+  }
+
+  /**
+   * Finds the first position, scanning rows top to bottom and each row left to right, where a mask fits on the
+   * sheet without touching a used cell.
+   * @param mask - The part's mask.
+   * @param sheetW - The packable width, which the part's true width must stay within.
+   * @param sheetH - The packable height, which the part's true height must stay within.
+   * @param cell - The raster cell size.
+   * @returns The fitting cell position, or null if the mask fits nowhere.
+   */
+  firstFit(mask: Mask, sheetW: number, sheetH: number, cell: number): { col: number; row: number } | null {
+    const maxRow = Math.min(this.rows - mask.rows.length, Math.floor((sheetH - mask.h) / cell + EPS))
+    const maxCol = Math.floor((sheetW - mask.w) / cell + EPS)
+    for (let row = 0; row <= maxRow; row++) {
+      for (let col = 0; col <= maxCol;) {
+        const skip = this.conflict(mask, col, row)
+        if (skip === 0) return { col, row }
+        col += skip
+      }
+    }
+    return null
+  }
+
+  /**
+   * Tests a mask at a position.
+   * @returns 0 if it fits, or how many columns to move right before the first blocked span can clear.
+   */
+  private conflict(mask: Mask, col: number, row: number): number {
+    for (let r = 0; r < mask.rows.length; r++) {
+      const pre = this.prefix[row + r],
+        used = this.used[row + r]
+      for (const [c0, c1] of mask.rows[r]) {
+        const a = col + c0,
+          b = Math.min(this.cols - 1, col + c1)
+        if (a > b || pre[b + 1] - pre[a] === 0) continue
+        let last = b
+        while (!used[last]) last--
+        return last - a + 1
+      }
+    }
+    return 0
+  }
+
+  /**
+   * Marks a placed mask as used, grown by `grow` cells in every direction to keep the part gap.
+   */
+  occupy(mask: Mask, col: number, row: number, grow: number) {
+    const touched = new Set<number>()
+    mask.rows.forEach((runs, r) => {
+      for (const [c0, c1] of runs) {
+        const a = Math.max(0, col + c0 - grow),
+          b = Math.min(this.cols - 1, col + c1 + grow)
+        for (let rr = Math.max(0, row + r - grow); rr <= Math.min(this.rows - 1, row + r + grow); rr++) {
+          this.used[rr].fill(1, a, b + 1)
+          touched.add(rr)
+        }
+      }
+    })
+    for (const r of touched) {
+      const pre = this.prefix[r],
+        used = this.used[r]
+      for (let c = 0; c < this.cols; c++) pre[c + 1] = pre[c] + used[c]
+    }
+  }
+}
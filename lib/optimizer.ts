@@ -0,0 +1,146 @@
+/**
+ * @file A simulated-annealing layout optimizer.
+ * Starting from the greedy layout, it repeatedly perturbs the order parts are packed in and the rotation each one
+ * is packed with, re-packs with the greedy layout's strategy, and keeps whichever layout `rankLayout` likes best.
+ * It runs for a fixed time budget, yielding between batches so callers can show progress and cancel it.
+ */
+
+import type { Globals, OptimizeProgress, PackingStrategy, Part, PlacedPart, SheetSource } from "./types"
+import { compareRanks, pack, rankLayout } from "./packer"
+
+export interface OptimizeOptions {
+  timeBudgetMs: number
+  seed: number // The same seed, budget and parts give the same moves, though not always the same iteration count
+  onProgress?: (progress: OptimizeProgress) => void
+  signal?: AbortSignal // Aborting stops the search and keeps the best layout found so far
+}
+
+/** How long to search between yields to the caller. */
+const BATCH_MS = 50
+/** Starting and final annealing temperatures, in units of the fraction of material used. */
+const T_START = 0.02,
+  T_END = 0.0005
+
+/**
+ * Weights folding `rankLayout`'s terms into one energy. Each is a thousand times the next, so a term outweighs any
+ * likely spread in the terms after it; the last, the negated utilization, never spreads by more than 1.
+ */
+const RANK_WEIGHTS = [1e9, 1e6, 1e3, 1]
+
+/**
+ * Searches for a better layout than the greedy one.
+ * @param greedy - The greedy layout, whose order and rotations are the starting point, and its sheets.
+ * @param strategy - The strategy that produced the greedy layout; its placement rule is used throughout.
+ * @param globals - The global settings.
+ * @param options - The time budget, seed, progress callback and cancel signal.
+ * @returns The best layout found and its sheets, whether it beats the greedy one, and whether the search was cancelled.
+ *   When it does not beat the greedy layout, the greedy layout itself is returned.
+ */
+export async function optimizeLayout(
+  greedy: { placedParts: PlacedPart[]; sheets: SheetSource[] },
+  strategy: PackingStrategy,
+  globals: Globals,
+  options: OptimizeOptions,
+): Promise<{
+  placedParts: PlacedPart[]
+  sheets: SheetSource[]
+  improved: boolean
+  cancelled: boolean
+  iterations: number
+}> {
+  const rng = mulberry32(options.seed)
+  const pick = (n: number) => Math.floor(rng() * n)
+  const greedyRank = rankLayout(greedy, globals)
+  // Unplaced parts dominate, then sheets and cost (in the objective's order), then the fraction of material used.
+  const energy = (rank: number[]) => rank.reduce((sum, term, i) => sum + term * RANK_WEIGHTS[i], 0)
+
+  // Packing the greedy layout's parts sheet by sheet, in placement order and with the rotations they got,
+  // reproduces it, as long as each sheet still goes to the same stock.
+  const parts: Part[] = [...greedy.placedParts].sort((a, b) => sheetOrder(a) - sheetOrder(b))
+  let order = parts.map((_, i) => i)
+  let rotations = new Map(greedy.placedParts.map((p) => [p.uid, p.rotated]))
+  const evaluate = (o: number[], r: Map<string, boolean>) => {
+    const layout = pack(
+      o.map((i) => parts[i]),
+      globals,
+      [],
+      strategy,
+      r,
+    )
+    return { ...layout, rank: rankLayout(layout, globals) }
+  }
+
+  let current = evaluate(order, rotations)
+  let best = { ...current, order, rotations }
+  let iterations = 0
+  const start = Date.now()
+  const report = () =>
+    options.onProgress?.({
+      elapsedMs: Date.now() - start,
+      budgetMs: options.timeBudgetMs,
+      iterations,
+      sheets: new Set(best.placedParts.map((p) => p.sheetIndex).filter((i) => i >= 0)).size,
+      utilization: -best.rank[3],
+    })
+
+  while (Date.now() - start < options.timeBudgetMs && !options.signal?.aborted) {
+    const batchEnd = Math.min(start + options.timeBudgetMs, Date.now() + BATCH_MS)
+    while (Date.now() < batchEnd) {
+      const nextOrder = [...order]
+      const nextRotations = new Map(rotations)
+      const move = rng()
+      if (move < 0.35 && parts.length > 1) {
+        const i = pick(parts.length),
+          j = pick(parts.length)
+        ;[nextOrder[i], nextOrder[j]] = [nextOrder[j], nextOrder[i]]
+      } else if (move < 0.7 && parts.length > 1) {
+        const [moved] = nextOrder.splice(pick(parts.length), 1)
+        nextOrder.splice(pick(parts.length), 0, moved)
+      } else if (globals.allow_rotation) {
+        const uid = parts[pick(parts.length)].uid
+        nextRotations.set(uid, !nextRotations.get(uid))
+      }
+      const next = evaluate(nextOrder, nextRotations)
+      iterations++
+
+      const progress = (Date.now() - start) / options.timeBudgetMs
+      const temperature = T_START * Math.pow(T_END / T_START, Math.min(1, progress))
+      const delta = energy(next.rank) - energy(current.rank)
+      if (delta <= 0 || rng() < Math.exp(-delta / temperature)) {
+        current = next
+        order = nextOrder
+        rotations = nextRotations
+        if (compareRanks(current.rank, best.rank) < 0) best = { ...current, order, rotations }
+      }
+    }
+    report()
+    await new Promise((resolve) => setTimeout(resolve, 0))
+  }
+  report()
+
+  const improved = compareRanks(best.rank, greedyRank) < 0
+  return {
+    placedParts: improved ? best.placedParts : greedy.placedParts,
+    sheets: improved ? best.sheets : greedy.sheets,
+    improved,
+    cancelled: !!options.signal?.aborted,
+    iterations,
+  }
+}
+
+// Unplaced parts (sheet -1) go last.
+const sheetOrder = (p: PlacedPart) => (p.sheetIndex < 0 ? Number.MAX_SAFE_INTEGER : p.sheetIndex)
+
+/**
+ * A small, fast seeded PRNG (Mulberry32), returning floats in [0, 1).
+ */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
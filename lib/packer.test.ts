@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest"
+import { findRemnants } from "./packer"
+import type { Globals, PlacedPart, SheetSource } from "./types"
+
+const sheet: SheetSource = { stockId: "default", name: "Sheet", w: 10, h: 10, cost: 0 }
+
+const globals = { part_gap: 0, remnant_min: 3 } as Globals
+
+const placed = (x: number, y: number, w: number, h: number) =>
+  ({ sheetIndex: 0, x, y, w, h, rotated: false }) as PlacedPart
+
+describe("findRemnants", () => {
+  it("keeps the full height beside a part that does not start at the sheet edge", () => {
+    // The free space right of the part runs past it at both ends: 8" x 10", not just the 8" x 2" beside it.
+    const remnants = findRemnants({ placedParts: [placed(0, 1, 2, 2)], sheets: [sheet] }, globals)
+    expect(remnants[0]).toEqual({ sheetIndex: 0, x: 2, y: 0, w: 8, h: 10 })
+  })
+
+  it("returns remnants that overlap neither the parts nor each other", () => {
+    const parts = [placed(0, 1, 2, 2), placed(4, 4, 3, 1), placed(7, 8, 3, 2)]
+    const remnants = findRemnants({ placedParts: parts, sheets: [sheet] }, globals)
+    expect(remnants.length).toBeGreaterThan(0)
+    const overlaps = (a: { x: number; y: number; w: number; h: number }, b: typeof a) =>
+      a.x < b.x + b.w - 1e-9 && b.x < a.x + a.w - 1e-9 && a.y < b.y + b.h - 1e-9 && b.y < a.y + a.h - 1e-9
+    remnants.forEach((r, i) => {
+      expect(Math.min(r.w, r.h)).toBeGreaterThanOrEqual(globals.remnant_min)
+      for (const p of parts) expect(overlaps(r, p)).toBe(false)
+      for (const other of remnants.slice(i + 1)) expect(overlaps(r, other)).toBe(false)
+    })
+  })
+})
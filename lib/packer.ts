@@ -1,47 +1,274 @@
 /**
  * @file Implements the packing algorithm for arranging parts onto sheets.
- * This uses a version of the MaxRects algorithm (Best Short Side Fit heuristic).
+ * This uses a version of the MaxRects algorithm with a choice of placement rules (Best Short Side Fit, Best Long
+ * Side Fit, Best Area Fit, Bottom-Left and Contact Point) and part orders, or, when `Globals.nesting` is "shape",
+ * the true-shape raster nester in `./nesting`. `packBest` tries every combination and keeps the best layout.
+ * Sheets are drawn from the remnant library in `Globals.remnants`, then from the stock inventory in
+ * `Globals.stock`, choosing a size for each sheet as it is started. `findRemnants` reports what is left over.
  * It's designed to efficiently place parts while respecting a defined gap between them.
  * The core strategy is to treat each part as if it's larger by the size of the gap,
  * ensuring that the final placements are always valid and never overlap.
  */
 
-import type { Part, PlacedPart, Globals } from "./types"
+import type {
+  Part,
+  PlacedPart,
+  Globals,
+  PackRule,
+  PackSort,
+  PackingStrategy,
+  Remnant,
+  SheetSource,
+  StockSheet,
+} from "./types"
+import { packSheetShapes } from "./nesting"
 
 type FreeRect = { x: number; y: number; w: number; h: number }
-type Candidate = { score: number; rot: boolean; x: number; y: number; w: number; h: number; rIndex: number }
+// Scores compare lexicographically, lowest first: a primary measure, then a tie-breaker.
+type Candidate = { score: [number, number]; rot: boolean; x: number; y: number; w: number; h: number; rIndex: number }
 
 const EPS = 1e-6
+// Finest raster cell for true-shape nesting; the cell count grows with its inverse square, so finer cells stall.
+const MIN_NEST_CELL = 0.01
+
+const PACK_RULES: PackRule[] = ["bssf", "blsf", "baf", "bl", "cp"]
+
+/** Part orders, each as a comparator putting the part to place first at the front. */
+const PACK_SORTS: Record<PackSort, (a: Part, b: Part) => number> = {
+  longest_side: (a, b) => Math.max(b.h, b.w) - Math.max(a.h, a.w),
+  area: (a, b) => b.w * b.h - a.w * a.h,
+  perimeter: (a, b) => b.w + b.h - (a.w + a.h),
+  width: (a, b) => b.w - a.w,
+  height: (a, b) => b.h - a.h,
+}
+
+const DEFAULT_STRATEGY: PackingStrategy = { rule: "bssf", sort: "longest_side" }
+
+/**
+ * Packs the parts with every placement rule and part order, and keeps the layout that leaves the fewest parts
+ * unplaced, then uses the fewest sheets (or costs the least), then has the highest utilization. Utilization counts
+ * the whole of every sheet but the last, and only the bounding box of the parts on the last, so denser early sheets
+ * win. True-shape nesting has a single placement rule, so only the part order varies.
+ * @param parts - An array of `Part` objects to be placed.
+ * @param globals - The global settings, including the stock inventory and gaps.
+ * @param usedSheets - Sheets already taken from the stock; new sheets are numbered after them.
+ * @returns The winning layout, as returned by `pack`, and the strategy that produced it.
+ */
+export function packBest(
+  parts: Part[],
+  globals: Globals,
+  usedSheets: SheetSource[] = [],
+): { placedParts: PlacedPart[]; sheets: SheetSource[]; strategy: PackingStrategy } {
+  const shapes = globals.nesting === "shape" && globals.nest_cell > 0
+  const sorts = Object.keys(PACK_SORTS) as PackSort[]
+  const strategies: PackingStrategy[] = shapes
+    ? sorts.map((sort) => ({ sort }))
+    : PACK_RULES.flatMap((rule) => sorts.map((sort) => ({ rule, sort })))
+
+  let best: { placedParts: PlacedPart[]; sheets: SheetSource[]; strategy: PackingStrategy; rank: number[] } | null =
+    null
+  for (const strategy of strategies) {
+    const layout = pack(parts, globals, usedSheets, strategy)
+    const rank = rankLayout(layout, globals)
+    if (!best || compareRanks(rank, best.rank) < 0) best = { ...layout, strategy, rank }
+  }
+  return { placedParts: best!.placedParts, sheets: best!.sheets, strategy: best!.strategy }
+}
+
+/**
+ * Ranks a layout for `packBest` and the layout optimizer; lower is better.
+ * @param layout - The placed parts, and the stock each sheet is cut from.
+ * @param globals - The global settings; `stock_objective` decides whether sheets or cost come first.
+ * @returns The number of unplaced parts, then the number of sheets and their total cost (cost first when the
+ *   objective is cost), then the negated utilization.
+ */
+export function rankLayout(
+  { placedParts, sheets }: { placedParts: PlacedPart[]; sheets: SheetSource[] },
+  globals: Globals,
+): number[] {
+  const placed = placedParts.filter((p) => p.sheetIndex >= 0)
+  if (placed.length === 0) return [placedParts.length, 0, 0, 0]
+  const used = [...new Set(placed.map((p) => p.sheetIndex))].sort((a, b) => a - b)
+  const last = used[used.length - 1]
+  const { margin } = globals
+  const onLast = placed.filter((p) => p.sheetIndex === last)
+  const lastW = Math.max(...onLast.map((p) => p.x + (p.rotated ? p.h : p.w))) - margin
+  const lastH = Math.max(...onLast.map((p) => p.y + (p.rotated ? p.w : p.h))) - margin
+  const usedArea = used
+    .slice(0, -1)
+    .reduce((sum, i) => sum + (sheets[i].w - 2 * margin) * (sheets[i].h - 2 * margin), lastW * lastH)
+  const partArea = placed.reduce((sum, p) => sum + p.w * p.h, 0)
+  const cost = used.reduce((sum, i) => sum + sheets[i].cost, 0)
+  const objective = globals.stock_objective === "cost" ? [cost, used.length] : [used.length, cost]
+  return [placedParts.length - placed.length, ...objective, -partArea / usedArea]
+}
+
+/**
+ * Lists the stock to draw sheets from: the inventory in `globals.stock`, or as many sheets of the default sheet
+ * size as needed when the inventory is empty.
+ */
+export function stockInventory(globals: Globals): StockSheet[] {
+  return globals.stock.length > 0
+    ? globals.stock
+    : [{ id: "default", name: "Sheet", w: globals.sheet_w, h: globals.sheet_h }]
+}
+
+/**
+ * Lists the stock still on hand once `usedSheets` have been taken from it.
+ */
+export function stockLeft(globals: Globals, usedSheets: SheetSource[]): StockSheet[] {
+  return onHand(stockInventory(globals), usedSheets)
+}
+
+/**
+ * Lists the remnants in the library not yet used by `usedSheets`.
+ */
+export function remnantsLeft(globals: Globals, usedSheets: SheetSource[]): StockSheet[] {
+  return onHand(globals.remnants ?? [], usedSheets)
+}
+
+const onHand = (stock: StockSheet[], usedSheets: SheetSource[]) =>
+  stock.filter((s) => s.count === undefined || usedSheets.filter((u) => u.stockId === s.id).length < s.count)
+
+/**
+ * Finds the usable material left on each sheet of a layout. The sheet's free space, kept `part_gap` clear of every
+ * part, is covered by overlapping maximal rectangles; the largest of them at least `remnant_min` on each side is
+ * taken as a remnant and carved out of the rest, until none is left that large.
+ * @param layout - The placed parts, and the stock each sheet is cut from.
+ * @param globals - The global settings.
+ * @returns The remnants, in sheet coordinates, largest first on each sheet.
+ */
+export function findRemnants(
+  { placedParts, sheets }: { placedParts: PlacedPart[]; sheets: SheetSource[] },
+  globals: Globals,
+): Remnant[] {
+  const { part_gap, remnant_min } = globals
+  if (!(remnant_min > 0)) return []
+
+  return sheets.flatMap((sheet, sheetIndex) => {
+    const onSheet = placedParts.filter((p) => p.sheetIndex === sheetIndex)
+    if (onSheet.length === 0) return []
+    let free: FreeRect[] = [{ x: 0, y: 0, w: sheet.w, h: sheet.h }]
+    for (const p of onSheet) {
+      const w = p.rotated ? p.h : p.w,
+        h = p.rotated ? p.w : p.h
+      const blockRect = { x: p.x - part_gap, y: p.y - part_gap, w: w + 2 * part_gap, h: h + 2 * part_gap }
+      free = pruneFreeRects(splitFreeRects(free, blockRect, sheet.w, sheet.h))
+    }
+
+    const remnants: Remnant[] = []
+    for (;;) {
+      const usable = free.filter((r) => Math.min(r.w, r.h) >= remnant_min - EPS)
+      if (usable.length === 0) break
+      const r = usable.reduce((a, b) => (b.w * b.h > a.w * a.h + EPS ? b : a))
+      remnants.push({ sheetIndex, ...r })
+      free = pruneFreeRects(splitFreeRects(free, r, sheet.w, sheet.h))
+    }
+    return remnants
+  })
+}
+
+/**
+ * Updates the remnant library once a layout has been cut: the library's remnants that the layout used are taken
+ * out, and the layout's own remnants are added, so a used remnant is replaced by whatever is left of it.
+ * Remnant sizes are rounded down to the hundredth of an inch.
+ * @param library - The remnant library.
+ * @param layout - The stock each sheet of the layout is cut from, and the layout's remnants.
+ * @returns The new library.
+ */
+export function saveRemnants(
+  library: StockSheet[],
+  { sheets, remnants }: { sheets: SheetSource[]; remnants: Remnant[] },
+): StockSheet[] {
+  const used = new Set(sheets.map((s) => s.stockId))
+  const stamp = Date.now()
+  const floor = (v: number) => Math.floor(v * 100 + EPS) / 100
+  return [
+    ...library.filter((r) => !used.has(r.id)),
+    ...remnants.map((r, i) => ({
+      id: `remnant-${stamp}-${i}`,
+      name: `Remnant ${floor(r.w)}" x ${floor(r.h)}"`,
+      w: floor(r.w),
+      h: floor(r.h),
+      count: 1,
+    })),
+  ]
+}
+
+export const compareRanks = (a: number[], b: number[]) => {
+  for (let i = 0; i < a.length; i++) {
+    if (Math.abs(a[i] - b[i]) > EPS) return a[i] - b[i]
+  }
+  return 0
+}
 
 /**
  * Main packing function. It takes a list of parts and orchestrates the packing process
  * across multiple sheets.
+ * Each new sheet is packed once from every stock size still on hand, and the objective picks which to keep: for
+ * the fewest sheets, the one holding the most part area (the smallest, when several take every part left); for the
+ * least cost, the one with the lowest cost per unit of part area. Ties go to the stock listed first. Remnants from
+ * the library are chosen between the same way, and go first: stock is only used once no remnant left takes a part.
  * @param parts - An array of `Part` objects to be placed.
- * @param globals - The global settings, including sheet dimensions and gaps.
- * @param startSheetIndex - The index to start numbering sheets from.
- * @returns An array of `PlacedPart` objects. Parts that could not be placed are marked with `sheetIndex: -1`.
+ * @param globals - The global settings, including the stock inventory and gaps.
+ * @param usedSheets - Sheets already taken from the stock; new sheets are numbered after them.
+ * @param strategy - The placement rule and part order to use.
+ * @param pinned - Each part's rotation, by uid, to place it with instead of trying both. When given, the parts are
+ *   packed in the order passed in rather than sorted; the layout optimizer uses this to search over both.
+ * @returns The `PlacedPart` objects, and the stock each sheet is cut from (starting with `usedSheets`). Parts that
+ *   could not be placed, on any stock left, are marked with `sheetIndex: -1`.
  */
-export function pack(parts: Part[], globals: Globals, startSheetIndex = 0): PlacedPart[] {
-  const { sheet_w, sheet_h, margin, part_gap, allow_rotation } = globals
-  const packableW = sheet_w - 2 * margin
-  const packableH = sheet_h - 2 * margin
+export function pack(
+  parts: Part[],
+  globals: Globals,
+  usedSheets: SheetSource[] = [],
+  strategy: PackingStrategy = DEFAULT_STRATEGY,
+  pinned?: Map<string, boolean>,
+): { placedParts: PlacedPart[]; sheets: SheetSource[] } {
+  const { margin, part_gap, allow_rotation, nesting, nest_cell, stock_objective } = globals
+  const cell = Math.max(MIN_NEST_CELL, nest_cell)
+
+  const orientations = (part: Part): boolean[] => {
+    if (!allow_rotation) return [false]
+    const rotated = pinned?.get(part.uid)
+    return rotated === undefined ? [false, true] : [rotated]
+  }
 
-  let remaining = [...parts]
+  // Each sheet keeps the leftovers in order, so sorting once orders every sheet.
+  let remaining = pinned ? [...parts] : [...parts].sort(PACK_SORTS[strategy.sort])
   const placedParts: PlacedPart[] = []
-  let sheetIndex = startSheetIndex
+  const sheets = [...usedSheets]
 
   while (remaining.length > 0) {
-    const { placed, remaining: rem } = packSheet(remaining, packableW, packableH, allow_rotation, part_gap)
-    if (placed.length === 0 && remaining.length > 0) {
-      for (const p of rem) {
+    let best: { stock: StockSheet; sheet: ReturnType<typeof packSheet>; score: number[] } | null = null
+    for (const stock of [remnantsLeft(globals, sheets), stockLeft(globals, sheets)]) {
+      if (best) break
+      for (let i = 0; i < stock.length; i++) {
+        const packableW = stock[i].w - 2 * margin
+        const packableH = stock[i].h - 2 * margin
+        if (packableW <= 0 || packableH <= 0) continue
+        const sheet =
+          nesting === "shape" && nest_cell > 0
+            ? packSheetShapes(remaining, packableW, packableH, orientations, part_gap, cell)
+            : packSheet(remaining, packableW, packableH, orientations, part_gap, strategy.rule ?? "bssf")
+        if (sheet.placed.length === 0) continue
+        const area = sheet.placed.reduce((sum, pl) => sum + pl.part.w * pl.part.h, 0)
+        const score =
+          stock_objective === "cost" ? [(stock[i].cost ?? 0) / area, -area, i] : [-area, stock[i].w * stock[i].h, i]
+        if (!best || compareRanks(score, best.score) < 0) best = { stock: stock[i], sheet, score }
+      }
+    }
+
+    if (!best) {
+      for (const p of remaining) {
         placedParts.push({ ...p, sheetIndex: -1, x: 0, y: 0, rotated: false, bookColor: "", bookIndex: -1 })
       }
       break
     }
-    for (const pl of placed) {
+    for (const pl of best.sheet.placed) {
       placedParts.push({
         ...pl.part,
-        sheetIndex,
+        sheetIndex: sheets.length,
         x: pl.x + margin,
         y: pl.y + margin,
         rotated: pl.rotated,
@@ -49,32 +276,40 @@ export function pack(parts: Part[], globals: Globals, startSheetIndex = 0): Plac
         bookIndex: -1,
       })
     }
-    remaining = rem
-    sheetIndex++
+    const { id, name, w, h, cost } = best.stock
+    sheets.push({ stockId: id, name, w, h, cost: cost ?? 0 })
+    remaining = best.sheet.remaining
   }
 
-  return placedParts
+  return { placedParts, sheets }
 }
 
 /**
- * Packs as many parts as possible onto a single sheet.
- * @param partsIn - The list of parts to attempt to pack.
+ * Packs as many parts as possible onto a single sheet, in the order given.
+ * @param parts - The list of parts to attempt to pack.
  * @param w - The packable width of the sheet.
  * @param h - The packable height of the sheet.
- * @param allowRotation - Whether parts can be rotated 90 degrees.
+ * @param orientations - The rotations to try for a part (`true` for turned 90 degrees).
  * @param gap - The minimum required distance between parts.
+ * @param rule - The placement rule.
  * @returns An object containing the list of `placed` parts and `remaining` parts that didn't fit.
  */
-function packSheet(partsIn: Part[], w: number, h: number, allowRotation: boolean, gap: number) {
+function packSheet(
+  parts: Part[],
+  w: number,
+  h: number,
+  orientations: (part: Part) => boolean[],
+  gap: number,
+  rule: PackRule,
+) {
   const placed: { part: Part; x: number; y: number; rotated: boolean }[] = []
   const remaining: Part[] = []
 
   let free: FreeRect[] = [{ x: 0, y: 0, w, h }]
-
-  const parts = [...partsIn].sort((a, b) => Math.max(b.h, b.w) - Math.max(a.h, a.w))
+  const used: FreeRect[] = []
 
   for (const part of parts) {
-    const cand = chooseMaxRectsPosition(part, free, allowRotation, gap)
+    const cand = chooseMaxRectsPosition(part, free, orientations(part), gap, rule, { w, h, used })
     if (!cand) {
       remaining.push(part)
       continue
@@ -88,6 +323,7 @@ function packSheet(partsIn: Part[], w: number, h: number, allowRotation: boolean
     // The blocked-out rectangle includes the part and its required gap.
     const blockRect = { x: cand.x, y: cand.y, w: partW + gap, h: partH + gap }
 
+    used.push(blockRect)
     free = splitFreeRects(free, blockRect, w, h)
     free = pruneFreeRects(free)
   }
@@ -97,14 +333,27 @@ function packSheet(partsIn: Part[], w: number, h: number, allowRotation: boolean
 
 /**
  * Finds the best position for a single part within the available free rectangles.
- * It uses the "Best Short Side Fit" (BSSF) heuristic.
+ * - `bssf` (Best Short Side Fit) and `blsf` (Best Long Side Fit) minimize the smaller or the larger leftover side
+ *   of the free rectangle.
+ * - `baf` (Best Area Fit) picks the free rectangle with the least leftover area.
+ * - `bl` (Bottom-Left) keeps the part's far edge as near the top of the sheet as possible, then as far left.
+ * - `cp` (Contact Point) maximizes the length of the part's outline touching the sheet edges and placed parts.
  * @param part - The part to place.
  * @param free - A list of available rectangular spaces.
- * @param allowRotation - Whether the part can be rotated.
+ * @param orientations - The rotations to try (`true` for turned 90 degrees).
  * @param gap - The required gap to add to the part's dimensions for collision detection.
+ * @param rule - The placement rule.
+ * @param bin - The packable sheet size and the rectangles already used on it (each including its gap).
  * @returns The best candidate position, or null if the part cannot fit anywhere.
  */
-function chooseMaxRectsPosition(part: Part, free: FreeRect[], allowRotation: boolean, gap: number): Candidate | null {
+function chooseMaxRectsPosition(
+  part: Part,
+  free: FreeRect[],
+  orientations: boolean[],
+  gap: number,
+  rule: PackRule,
+  bin: { w: number; h: number; used: FreeRect[] },
+): Candidate | null {
   let best: Candidate | null = null
   for (let i = 0; i < free.length; i++) {
     const fr = free[i]
@@ -113,21 +362,53 @@ function chooseMaxRectsPosition(part: Part, free: FreeRect[], allowRotation: boo
       const fitW = pw + gap
       const fitH = ph + gap
       if (fitW <= fr.w + EPS && fitH <= fr.h + EPS) {
-        const score = Math.min(fr.w - fitW, fr.h - fitH) // Best Short Side Fit
+        const shortSide = Math.min(fr.w - fitW, fr.h - fitH),
+          longSide = Math.max(fr.w - fitW, fr.h - fitH)
+        const score: [number, number] =
+          rule === "blsf"
+            ? [longSide, shortSide]
+            : rule === "baf"
+              ? [fr.w * fr.h - fitW * fitH, shortSide]
+              : rule === "bl"
+                ? [fr.y + fitH, fr.x]
+                : rule === "cp"
+                  ? [-contactLength({ x: fr.x, y: fr.y, w: fitW, h: fitH }, bin), shortSide]
+                  : [shortSide, longSide]
         const c: Candidate = { score, rot, x: fr.x, y: fr.y, w: pw, h: ph, rIndex: i }
-        if (!best || c.score < best.score) best = c
+        if (!best || compareRanks(c.score, best.score) < 0) best = c
       }
     }
     // Use the part's true dimensions for fitting.
-    tryFit(part.w, part.h, false)
-    if (allowRotation) tryFit(part.h, part.w, true)
+    for (const rot of orientations) tryFit(rot ? part.h : part.w, rot ? part.w : part.h, rot)
   }
   return best
 }
 
+/**
+ * Measures how much of a rectangle's outline lies along the sheet edges or the edges of used rectangles.
+ */
+function contactLength(r: FreeRect, bin: { w: number; h: number; used: FreeRect[] }): number {
+  const span = (a0: number, a1: number, b0: number, b1: number) => Math.max(0, Math.min(a1, b1) - Math.max(a0, b0))
+  let contact = 0
+  if (r.x <= EPS || Math.abs(r.x + r.w - bin.w) <= EPS) contact += r.h
+  if (r.y <= EPS || Math.abs(r.y + r.h - bin.h) <= EPS) contact += r.w
+  for (const u of bin.used) {
+    if (Math.abs(u.x + u.w - r.x) <= EPS || Math.abs(r.x + r.w - u.x) <= EPS) {
+      contact += span(r.y, r.y + r.h, u.y, u.y + u.h)
+    }
+    if (Math.abs(u.y + u.h - r.y) <= EPS || Math.abs(r.y + r.h - u.y) <= EPS) {
+      contact += span(r.x, r.x + r.w, u.x, u.x + u.w)
+    }
+  }
+  return contact
+}
+
 /**
  * Splits the free rectangles based on the area consumed by a newly placed part.
- * After a part is placed, this function updates the list of available spaces.
+ * After a part is placed, this function updates the list of available spaces. Each free rectangle the part
+ * overlaps is replaced by the four pieces of it above, below, left and right of the part, each running the full
+ * length of the free rectangle, so (once `pruneFreeRects` drops the ones inside others) the free space stays
+ * covered by maximal rectangles.
  * @param free - The current list of free rectangles.
  * @param used - The rectangle representing the newly placed part (including its gap).
  * @param sheetW - The total packable width of the sheet.
@@ -156,9 +437,9 @@ function splitFreeRects(free: FreeRect[], used: FreeRect, sheetW: number, sheetH
     // Below
     if (fr.y + fr.h - iy2 > EPS) out.push({ x: fr.x, y: iy2, w: fr.w, h: fr.y + fr.h - iy2 })
     // Left
-    if (ix - fr.x > EPS) out.push({ x: fr.x, y: iy, w: ix - fr.x, h: iy2 - iy })
+    if (ix - fr.x > EPS) out.push({ x: fr.x, y: fr.y, w: ix - fr.x, h: fr.h })
     // Right
-    if (fr.x + fr.w - ix2 > EPS) out.push({ x: ix2, y: iy, w: fr.x + fr.w - ix2, h: iy2 - iy })
+    if (fr.x + fr.w - ix2 > EPS) out.push({ x: ix2, y: fr.y, w: fr.x + fr.w - ix2, h: fr.h })
   }
 
   return out
@@ -173,7 +454,8 @@ function splitFreeRects(free: FreeRect[], used: FreeRect, sheetW: number, sheetH
 
 /**
  * Removes any free rectangles that are fully contained within another free rectangle.
- * This is an optimization to keep the list of free spaces manageable.
+ * This is an optimization to keep the list of free spaces manageable. Of several identical rectangles, the first
+ * is kept.
  * @param free - The list of free rectangles.
  * @returns A pruned list of free rectangles.
  */
@@ -183,7 +465,7 @@ function pruneFreeRects(free: FreeRect[]): FreeRect[] {
     let contained = false
     for (let j = 0; j < free.length; j++) {
       if (i === j) continue
-      if (contains(free[j], free[i])) {
+      if (contains(free[j], free[i]) && (j < i || !contains(free[i], free[j]))) {
         contained = true
         break
       }
@@ -4,43 +4,79 @@
  * organizing the output into layers that are friendly for laser cutters like Glowforge.
  */
 
-import type { PlacedPart, Globals } from "./types"
+import type { PlacedPart, Globals, SheetSource } from "./types"
 
 /**
  * Renders a list of placed parts into an array of SVG strings, one for each sheet.
  * @param placedParts - The array of all parts that have been successfully placed.
- * @param globals - The global settings, used for SVG dimensions.
+ * @param globals - The global settings, used for the sheet margin.
+ * @param sheetSources - The stock each sheet is cut from, by sheet index, used for SVG dimensions.
  * @param filePrefix - A prefix for sheet identification (not currently used in SVG content).
  * @returns An array of strings, where each string is a complete SVG document for one sheet.
  */
-function renderSheetsAsSvgs(placedParts: PlacedPart[], globals: Globals, filePrefix = "sheet"): string[] {
+function renderSheetsAsSvgs(
+  placedParts: PlacedPart[],
+  globals: Globals,
+  sheetSources: SheetSource[],
+  filePrefix = "sheet",
+): string[] {
   const sheets: PlacedPart[][] = []
+  const depthColors = depthColorsFor(placedParts)
   placedParts.forEach((part) => {
-    assertInBounds(part, globals)
+    assertInBounds(part, sheetSources[part.sheetIndex], globals)
     if (!sheets[part.sheetIndex]) {
       sheets[part.sheetIndex] = []
     }
     sheets[part.sheetIndex].push(part)
   })
 
-  return sheets.map((sheetParts) => renderSheet(sheetParts, globals))
+  return sheets.map((sheetParts, i) => renderSheet(sheetParts, sheetSources[i], depthColors))
+}
+
+/**
+ * Fills for the depth-engrave layers. Laser software sets up one operation per color, so each target depth needs a
+ * color of its own; these run from the shallowest depth to the deepest.
+ */
+const DEPTH_COLORS = ["#00A000", "#00A0A0", "#80A000", "#006040", "#40D060", "#004000", "#00D0A0", "#A0A000"]
+
+/**
+ * Assigns each distinct engrave depth across all the parts its own fill color, so a depth has the same color on
+ * every sheet.
+ * @returns The fill color for each depth, keyed as the depth-engrave groups are.
+ */
+function depthColorsFor(parts: PlacedPart[]): Map<string, string> {
+  const depths = [...new Set(parts.flatMap((p) => (p.depthEngraveDs ?? []).map(({ depth }) => depth.toFixed(3))))]
+  depths.sort((a, b) => Number(a) - Number(b))
+  return new Map(
+    depths.map((depth, i) => [
+      depth,
+      // Past the palette, step the red channel so every depth still gets a distinct green.
+      DEPTH_COLORS[i] ?? `#${(i % 256).toString(16).padStart(2, "0")}8000`,
+    ]),
+  )
 }
 
 /**
  * Renders a single sheet's worth of parts into a single SVG string.
  * It groups SVG path elements by their intended laser cutter operation (color)
- * to ensure a correct cutting order: ENGRAVE (Black) -> SCORE (Gray) -> INNER CUTS (Blue) -> OUTER CUTS (Book-specific colors).
+ * to ensure a correct cutting order: ENGRAVE (Black) -> PATTERN ENGRAVE (Dark gray, filled) -> DEPTH ENGRAVE
+ * (Greens, one layer and one color per depth, from `DEPTH_COLORS` shallowest first; the depth each color stands
+ * for is also listed in the SVG's metadata) -> SCORE (Gray)
+ * -> INNER CUTS (Blue) -> OUTER CUTS (Book-specific colors).
  * @param parts - The parts to render on this sheet.
- * @param globals - The global settings for sheet size.
+ * @param sheet - The stock the sheet is cut from, for its size.
+ * @param depthColors - The fill color for each depth-engrave depth.
  * @returns A string containing the full SVG markup for the sheet.
  */
-function renderSheet(parts: PlacedPart[], globals: Globals): string {
-  const { sheet_w, sheet_h } = globals
+function renderSheet(parts: PlacedPart[], sheet: SheetSource, depthColors: Map<string, string>): string {
+  const { w: sheet_w, h: sheet_h } = sheet
 
   const OUTER: { [color: string]: string[] } = {}
   const INNER: { [color: string]: string[] } = {} // all holes in BLUE by default
   const SCORE: string[] = []
   const ENGRAVE: string[] = []
+  const PATTERN: string[] = [] // filled surface marks (light-extraction dots)
+  const DEPTH: { [depth: string]: string[] } = {} // filled pockets, keyed by target depth
 
   let minX = sheet_w,
     minY = sheet_h,
@@ -48,7 +84,22 @@ function renderSheet(parts: PlacedPart[], globals: Globals): string {
     maxY = 0
 
   parts.forEach((p) => {
-    const { x, y, w, h, rotated, outerCutD, innerCutDs, scoreDs, bookName, partType, bookColor } = p
+    const {
+      x,
+      y,
+      w,
+      h,
+      rotated,
+      outerCutD,
+      innerCutDs,
+      scoreDs,
+      depthEngraveDs,
+      patternDs,
+      engraveLabels,
+      bookName,
+      partType,
+      bookColor,
+    } = p
 
     const tx = x,
       ty = y
@@ -76,6 +127,18 @@ function renderSheet(parts: PlacedPart[], globals: Globals): string {
       SCORE.push(`<g transform="${finalTransform}">${scoreDs.map((d) => `<path d="${d}"/>`).join("\n")}</g>`)
     }
 
+    // PATTERN ENGRAVE (filled surface marks)
+    if (patternDs?.length) {
+      PATTERN.push(`<path d="${patternDs.join(" ")}" transform="${finalTransform}"/>`)
+    }
+
+    // DEPTH ENGRAVE (filled regions, grouped by target depth)
+    depthEngraveDs?.forEach(({ d, depth }) => {
+      const key = depth.toFixed(3)
+      if (!DEPTH[key]) DEPTH[key] = []
+      DEPTH[key].push(`<path d="${d}" transform="${finalTransform}"/>`)
+    })
+
     // Label at center of the final bounding box, converted to vector paths
     const finalLabelX = tx + bboxW / 2
     const finalLabelY = ty + bboxH / 2
@@ -86,6 +149,13 @@ function renderSheet(parts: PlacedPart[], globals: Globals): string {
     const labelPaths = textToVectorPaths(labelText, finalLabelX, finalLabelY, fs, rot)
     ENGRAVE.push(...labelPaths)
 
+    // Extra labels (e.g. each compartment's book name), mapped from part coordinates through the same placement
+    engraveLabels?.forEach((label) => {
+      const lx = rotated ? tx + h - label.y : tx + label.x,
+        ly = rotated ? ty + label.x : ty + label.y
+      ENGRAVE.push(...textToVectorPaths(label.text, lx, ly, labelFontSizeFor(label.w, label.h), rot))
+    })
+
     // Update overall bbox
     minX = Math.min(minX, x)
     minY = Math.min(minY, y)
@@ -109,8 +179,17 @@ function renderSheet(parts: PlacedPart[], globals: Globals): string {
     )
   }
 
-  // Emit in the **desired job order**: ENGRAVE → SCORE → INNER → OUTER
+  // Emit in the **desired job order**: ENGRAVE → PATTERN ENGRAVE → DEPTH ENGRAVE → SCORE → INNER → OUTER
   const engraveContent = `<g id="ENGRAVE" stroke="#000000" fill="none" stroke-width="0.003">${ENGRAVE.join("\n")}</g>`
+  const patternContent = PATTERN.length
+    ? `<g id="PATTERN_ENGRAVE" fill="#404040" stroke="none">${PATTERN.join("\n")}</g>`
+    : ""
+  const depthContent = Object.entries(DEPTH)
+    .map(
+      ([depth, paths]) =>
+        `<g id="DEPTH_ENGRAVE_${depth}in" data-depth="${depth}" fill="${depthColors.get(depth)}" stroke="none">${paths.join("\n")}</g>`,
+    )
+    .join("\n")
   const scoreContent = SCORE.length
     ? `<g id="SCORE" stroke="#808080" fill="none" stroke-width="0.003">${SCORE.join("\n")}</g>`
     : ""
@@ -125,11 +204,16 @@ function renderSheet(parts: PlacedPart[], globals: Globals): string {
    <generator>BookLightSVG v1.0</generator>
    <timestamp>${new Date().toISOString()}</timestamp>
    <units>inches</units>
+${Object.keys(DEPTH)
+  .map((depth) => `   <depth-engrave depth="${depth}in" fill="${depthColors.get(depth)}"/>`)
+  .join("\n")}
  </metadata>`
 
   return `<svg width="${sheet_w}in" height="${sheet_h}in" viewBox="0 0 ${sheet_w} ${sheet_h}" xmlns="http://www.w3.org/2000/svg">
    ${metadata}
    ${engraveContent}
+   ${patternContent}
+   ${depthContent}
    ${scoreContent}
    ${innerContent}
    ${outerContent}
@@ -264,15 +348,15 @@ function labelFontSizeFor(w: number, h: number) {
   return Math.max(0.08, Math.min(0.15, s)) // clamp 0.08–0.15 in for better readability
 }
 
-function assertInBounds(p: PlacedPart, g: Globals) {
+function assertInBounds(p: PlacedPart, sheet: SheetSource, g: Globals) {
   const w = p.rotated ? p.h : p.w
   const h = p.rotated ? p.w : p.h
   const r = p.x + w,
     b = p.y + h
   const L = g.margin - 1e-6,
     T = g.margin - 1e-6
-  const R = g.sheet_w - g.margin + 1e-6,
-    B = g.sheet_h - g.margin + 1e-6
+  const R = sheet.w - g.margin + 1e-6,
+    B = sheet.h - g.margin + 1e-6
   if (p.x < L || p.y < T || r > R || b > B) {
     throw new Error(`Part out of bounds: ${p.partType} on sheet ${p.sheetIndex}`)
   }
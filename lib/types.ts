@@ -5,21 +5,53 @@
  */
 
 export type EdgeName = "HEAD" | "TAIL" | "FORE" | "SPINE"
-export type PartType = "BASE" | "LID" | "FRONT" | "BACK" | "LEFT" | "RIGHT"
+export type PartType = "BASE" | "LID" | "LID_LIP" | "FRONT" | "BACK" | "LEFT" | "RIGHT" | "DIVIDER" | "HINGE_BARREL"
 export type JointRole = "male" | "female"
+export type ReliefStyle = "circle" | "dogbone" | "tbone" | "none"
+export type MagnetMount = "through" | "pocket"
+export type HingeStyle = "tape" | "living" | "knuckle"
+export type EdgePair = "width" | "depth" | "height"
+export type PanelSide = "top" | "right" | "bottom" | "left"
+export type NestingMode = "rect" | "shape"
+export type LidStyle = "hinged" | "sliding" | "inset"
+export type CaseType = "tray" | "enclosure" | "slipcover"
+export type LedChannel = "none" | "wall_slots" | "base_groove"
+export type StockObjective = "sheets" | "cost"
 
 /**
  * Global settings that apply to the entire generation process,
  * including sheet dimensions, material properties, and packing parameters.
  */
 export interface Globals {
-  sheet_w: number
+  sheet_w: number // The sheet size used when `stock` is empty
   sheet_h: number
+  stock: StockSheet[] // Sheet sizes on hand, in order of preference; empty means unlimited sheet_w x sheet_h sheets
+  stock_objective: StockObjective // Choose stock for each sheet to use the fewest sheets, or to cost the least
+  remnants: StockSheet[] // The remnant library: offcuts saved from earlier layouts, used before any stock
+  remnant_min: number // Smallest width and height worth keeping as a remnant; 0 turns remnants off
   margin: number
   part_gap: number
   allow_rotation: boolean
+  nesting: NestingMode // "rect" packs bounding boxes; "shape" nests true outlines so panel teeth interlock
+  nest_cell: number // Raster cell size for true-shape nesting: smaller nests tighter but runs slower
+  optimize_ms: number // Time budget for the layout optimizer when packing on demand; 0 turns it off
+  optimize_seed: number // Seed for the optimizer's random moves, so a run can be repeated
   kerf: number
   t: number
+  relief_style: ReliefStyle
+  relief_size: number // Circle diameter, or router tool diameter for dog-bone / T-bone reliefs
+}
+
+/**
+ * One size of sheet stock in the inventory.
+ */
+export interface StockSheet {
+  id: string
+  name: string
+  w: number
+  h: number
+  count?: number // Sheets on hand; unset for as many as needed
+  cost?: number // Cost of one sheet; unset counts as free
 }
 
 /**
@@ -29,6 +61,11 @@ export interface Globals {
 export interface BookJob {
   id: string
   name: string
+  group_id?: string // Books sharing a group id share one case, side by side; the first one's settings build it
+  case_type: CaseType // A low glowing tray, a full enclosure, or a full-height slip-cover open at `open_end`
+  open_end: EdgeName
+  no_lid: boolean // Leave the LID out, e.g. for an open glowing tray
+  flush_top: boolean // Without a LID, finish the walls with a flat top edge instead of fingers
   H_ext: number
   W_ext: number
   D_ext: number
@@ -36,19 +73,188 @@ export interface BookJob {
   clear_depth: number
   h_visible: number
   raise_gap: number
+  clear_top: number // Headroom above the book in enclosures and slip-covers
   tab_w_rule: number
   joint_clear: number
   symmetric_ends: boolean
+  tab_overrides: Partial<Record<EdgePair, TabOverride>>
+  pads: PadZone[]
+  cutouts: Cutout[]
+  components: ComponentPlacement[]
+  dividers_cross: number // Evenly spaced dividers parallel to LEFT/RIGHT, slotted into FRONT/BACK
+  dividers_long: number // Evenly spaced dividers parallel to FRONT/BACK, slotted into LEFT/RIGHT
+  divider_halving: boolean // Crossing dividers interlock with halving notches instead of splitting the long ones
+  led_channel: LedChannel // Wall slots are windows in the glow band; the base groove is a pocket around the BASE
+  led_w: number // LED strip width, including any silicone sleeve
+  led_thick: number // LED strip thickness, including any silicone sleeve
+  diffuser_band: boolean // Frost the glow band (the top `h_visible` of each wall) with a shallow engrave
+  dot_pattern: boolean // Engrave a light-extraction dot gradient into the LID for edge lighting
+  dot_pitch: number // Center spacing of the (staggered) dot grid
+  dot_min: number // Dot diameter at the lit edges
+  dot_max: number // Dot diameter at the middle of the LID, furthest from the light
+  dot_falloff: number // Gradient exponent: 1 is linear, higher values keep dots small further in
+  dot_border: number // Dot-free margin inside the LID's joints
+  lid_style: LidStyle // Sliding lids run in grooves along LEFT/RIGHT; inset lids rest on the walls over a LID_LIP
+  slide_clear: number // Play between a sliding LID and its grooves
+  slide_depth: number // How far the grooves are engraved into LEFT/RIGHT
+  lip_clear: number // Gap on each side between an inset LID's lip and the walls
   hinge_edge: EdgeName
+  hinge_style: HingeStyle
   tape_reserved_strip: number
   tape_guide: boolean
+  knuckle_count: number // HINGE_BARREL parts along a knuckle hinge, alternately glued into the hinge wall and the LID
+  pin_diam: number // The pin rod that runs through every barrel
+  pin_clear: number
   mag_count: number
   mag_diam: number
   mag_thick: number
+  mag_mount: MagnetMount
+  mag_lid: boolean
+  mag_layout: MagnetLayout
   mag_clear: number
   mag_edge_offset: number
 }
 
+/**
+ * Overrides the automatic finger layout for one family of mating edges: every edge running along the
+ * case's width (`W_int`), depth (`D_int`) or wall height (`H_wall`) shares it, so mating edges always agree.
+ * An explicit `count` wins over `tab_w`; either is still rounded to the parity `symmetric_ends` requires.
+ */
+export interface TabOverride {
+  count?: number
+  tab_w?: number
+}
+
+/**
+ * A span of one panel edge that is kept flat (no fingers), e.g. where a cable exits or a latch sits.
+ * `start` is measured along the panel's core from its left end (top/bottom edges) or top end (left/right edges),
+ * with walls seen from outside the case. The mating edge of the neighbouring panel gets the same span.
+ */
+export interface PadZone {
+  part: PartType
+  side: PanelSide
+  start: number
+  length: number
+}
+
+export type CutoutShape = "circle" | "rect" | "slot" | "rounded_rect"
+
+/**
+ * A user-defined opening cut through one panel, e.g. a cable slot or a switch hole.
+ * `x`/`y` is the shape's center, measured from the top-left corner of the panel's inner core as cut.
+ * - `circle`: `w` is the diameter; `h` is ignored.
+ * - `rect`: `w` x `h` with square corners.
+ * - `slot`: `w` x `h` with fully rounded ends.
+ * - `rounded_rect`: `w` x `h` with corner radius `r`.
+ */
+export interface Cutout {
+  part: PartType
+  shape: CutoutShape
+  x: number
+  y: number
+  w: number
+  h: number
+  r?: number
+}
+
+export type ComponentKind = "usb_c" | "micro_usb" | "barrel_jack" | "ss12_switch" | "aa2_holder" | "holder_18650"
+
+/**
+ * A standard electronics footprint (see `COMPONENT_FOOTPRINTS` in the generator) placed on one panel.
+ * `offset` is the footprint's center measured from the left end of the panel's inner core as cut, and
+ * `elevation` its height above the bottom of the core (centered when omitted). `rotated` turns it 90°.
+ */
+export interface ComponentPlacement {
+  kind: ComponentKind
+  part: PartType
+  offset: number
+  elevation?: number
+  rotated?: boolean
+}
+
+/**
+ * Where the magnets sit on the BASE. Coordinates and offsets are measured on the BASE panel as cut,
+ * from its top-left corner.
+ * - `corners`: the classic two/four corner pattern, driven by `mag_count` and `mag_edge_offset`.
+ * - `edge`: `count` magnets spread evenly along one side, `mag_edge_offset` in from it.
+ * - `centered_pair`: two magnets `spacing` apart, centered on the panel along `axis`.
+ * - `custom`: explicit magnet centers.
+ */
+export type MagnetLayout =
+  | { kind: "corners" }
+  | { kind: "edge"; side: PanelSide; count: number }
+  | { kind: "centered_pair"; axis: "x" | "y"; spacing: number }
+  | { kind: "custom"; points: Point[] }
+
+/**
+ * A non-fatal issue found while generating parts, e.g. a hole that had to be moved to clear an edge or joint.
+ */
+export interface GenerationWarning {
+  jobId: string
+  bookName: string
+  partType?: PartType
+  message: string
+}
+
+/**
+ * The outcome of a generation run: the placed parts plus anything the user should know about.
+ */
+export interface GenerationResult {
+  placedParts: PlacedPart[]
+  warnings: GenerationWarning[]
+  strategy?: PackingStrategy // The packing strategy that won for the main batch of parts
+  sheets: SheetSource[] // The stock each sheet is cut from, by sheet index
+  remnants: Remnant[] // Usable material left over once the parts are cut
+}
+
+/**
+ * A usable rectangle of material left on a sheet, clear of every part by at least the part gap.
+ */
+export interface Remnant {
+  sheetIndex: number
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+/**
+ * The stock a packed sheet is cut from.
+ */
+export interface SheetSource {
+  stockId: string
+  name: string
+  w: number
+  h: number
+  cost: number
+}
+
+/**
+ * A rectangle placement rule: Best Short Side Fit, Best Long Side Fit, Best Area Fit, Bottom-Left or Contact Point.
+ */
+export type PackRule = "bssf" | "blsf" | "baf" | "bl" | "cp"
+export type PackSort = "longest_side" | "area" | "perimeter" | "width" | "height"
+
+/**
+ * How a layout was packed: the order parts were taken in and, for rectangle packing, the placement rule.
+ */
+export interface PackingStrategy {
+  rule?: PackRule
+  sort: PackSort
+  optimized?: boolean // The layout optimizer then improved on it by changing part order and rotation
+}
+
+/**
+ * A progress report from the layout optimizer, describing the best layout found so far.
+ */
+export interface OptimizeProgress {
+  elapsedMs: number
+  budgetMs: number
+  iterations: number
+  sheets: number
+  utilization: number
+}
+
 /**
  * Represents a single, unplaced geometric part of a book case (e.g., BASE, LID, FRONT).
  * It contains all the geometric data needed for packing and rendering.
@@ -63,9 +269,12 @@ export interface Part {
   outerCutD: string
   innerCutDs: string[]
   scoreDs: string[]
+  depthEngraveDs: { d: string; depth: number }[] // Filled regions engraved to a target depth (e.g. blind pockets)
+  patternDs: string[] // Filled surface marks, e.g. the LID's light-extraction dots
   holes: { cx: number; cy: number; r: number }[]
   contourPoints: Point[] // The exact, normalized points of the outer path
   labelAt: { x: number; y: number }
+  engraveLabels: { text: string; x: number; y: number; w: number; h: number }[] // Extra text, centered in a box
 }
 
 /**
@@ -96,5 +305,19 @@ export interface Rect {
 export interface EdgeParams {
   teeth: boolean
   reserveStrip?: number
+  fingers?: number // Explicit finger count; when absent it is derived from the edge length and `tab_w_rule`
+  notches?: EdgeNotch[] // Only on edges without teeth, e.g. halving joints
   role: JointRole
+  jointClear?: number // Overrides the job's `joint_clear` for female teeth, e.g. when the mating slot carries it
 }
+
+/**
+ * A square notch cut into a flat edge, `start` measured along the edge's travel direction.
+ */
+export interface EdgeNotch {
+  start: number
+  width: number
+  depth: number
+}
+
+export type PanelEdges = Record<PanelSide, EdgeParams>